@@ -2,13 +2,34 @@
 // SPDX-License-Identifier: GNU General Public License v3.0
 
 /**
- * OAuth provider constants
+ * Built-in OAuth provider constants
  */
 export const OAUTH_PROVIDERS = {
   GOOGLE: 'google',
   GITHUB: 'github',
 } as const;
 
+/**
+ * id_token verification failures
+ *
+ * The key is returned as the `error` field of the 422 response, the value as `message`.
+ */
+export const ID_TOKEN_ERRORS = {
+  MALFORMED: 'Invalid JWT: malformed token',
+  UNSUPPORTED_ALGORITHM: 'Invalid JWT: unsupported signing algorithm',
+  KEY_NOT_FOUND: 'Invalid JWT: signing key not found',
+  INVALID_SIGNATURE: 'Invalid JWT: signature verification failed',
+  ISSUER_MISMATCH: 'Invalid JWT: issuer mismatch',
+  AUDIENCE_MISMATCH: 'Invalid JWT: audience mismatch',
+  EXPIRED: 'Invalid JWT: token expired',
+  INVALID_ISSUED_AT: 'Invalid JWT: missing or future iat claim',
+  NOT_YET_VALID: 'Invalid JWT: token not yet valid',
+  NONCE_MISMATCH: 'Invalid JWT: nonce mismatch',
+  MISSING_SUB: 'Invalid JWT: missing sub claim',
+} as const;
+
+export type IdTokenError = keyof typeof ID_TOKEN_ERRORS;
+
 /**
  * OAuth state cookie configuration
  */
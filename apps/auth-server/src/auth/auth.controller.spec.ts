@@ -0,0 +1,207 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { ConfigService } from '@nestjs/config';
+import type { Request, Response } from 'express';
+import type { AuthServerConfig } from '../config/config.interface.js';
+import type { AuthService } from './auth.service.js';
+import type { OAuthProviderAdapter } from './providers/oauth-provider.interface.js';
+import type { OidcDiscoveryService } from './providers/oidc-discovery.service.js';
+
+import { UnprocessableEntityException } from '@nestjs/common';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { githubProvider } from './providers/github.provider.js';
+import { OAuthProviderRegistry } from './providers/oauth-provider.registry.js';
+import { AuthController } from './auth.controller.js';
+import { IdTokenIssuerService } from './id-token-issuer.service.js';
+import { IdTokenVerifierService } from './id-token-verifier.service.js';
+import { JwksService } from './jwks.service.js';
+
+const EPHEMERAL_PUBLIC_KEY = '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+const GITHUB_ISSUER = 'http://localhost:3000/auth/github';
+const FRONTEND_ORIGIN = 'http://localhost:3001';
+
+const storedNonce = () => ({
+  id: 'nonce-id',
+  ephemeralPublicKey: EPHEMERAL_PUBLIC_KEY,
+  nonce: 'stored-nonce',
+  randomness: '123',
+  maxEpoch: 514n,
+  authState: 'stored-state',
+  codeVerifier: 'verifier',
+  consumedAt: null,
+  expiresAt: new Date(Date.now() + 600_000),
+  createdAt: new Date(),
+});
+
+describe('AuthController', () => {
+  let dir: string;
+  let keyFile: string;
+  let authService: Record<
+    | 'generateAndStoreNonce'
+    | 'generateAuthUrl'
+    | 'findPendingNonce'
+    | 'consumeNonce'
+    | 'exchangeCode'
+    | 'upsertUser'
+    | 'enqueueProof',
+    ReturnType<typeof vi.fn>
+  >;
+  let issuer: IdTokenIssuerService;
+  let controller: AuthController;
+  let res: Record<'cookie' | 'clearCookie' | 'json' | 'redirect', ReturnType<typeof vi.fn>>;
+
+  const callback = (provider: string, state = 'stored-state') =>
+    controller.handleCallback(
+      provider,
+      { code: 'code', state },
+      { cookies: { [`${provider}-oauth-state`]: 'stored-state' } } as unknown as Request,
+      res as unknown as Response,
+    );
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'auth-controller-'));
+    keyFile = join(dir, 'github.pem');
+    await writeFile(
+      keyFile,
+      generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey.export({ format: 'pem', type: 'pkcs8' }),
+    );
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    const values: Record<string, unknown> = {
+      oauth: {
+        github: {
+          clientId: 'github-client',
+          redirectUri: `${GITHUB_ISSUER}/callback`,
+          issuer: GITHUB_ISSUER,
+          signingKeyFile: keyFile,
+        },
+      },
+      nodeEnv: 'test',
+      'jwt.clockSkewSeconds': 60,
+      'frontend.origin': FRONTEND_ORIGIN,
+    };
+    const config = { get: (key: string) => values[key] } as unknown as ConfigService<AuthServerConfig, true>;
+
+    const providers = new OAuthProviderRegistry(config, {} as OidcDiscoveryService);
+
+    issuer = new IdTokenIssuerService(providers);
+
+    authService = {
+      generateAndStoreNonce: vi.fn().mockResolvedValue({ ...storedNonce(), maxEpoch: 514 }),
+      generateAuthUrl: vi.fn().mockResolvedValue('https://github.com/login/oauth/authorize?state=stored-state'),
+      findPendingNonce: vi.fn().mockResolvedValue(storedNonce()),
+      consumeNonce: vi.fn().mockResolvedValue(storedNonce()),
+      exchangeCode: vi.fn().mockResolvedValue({ access_token: 'gho_token', token_type: 'bearer' }),
+      upsertUser: vi.fn(),
+      enqueueProof: vi.fn().mockResolvedValue('waiting'),
+    };
+    res = { cookie: vi.fn(), clearCookie: vi.fn(), json: vi.fn(), redirect: vi.fn() };
+
+    controller = new AuthController(
+      authService as unknown as AuthService,
+      providers,
+      new IdTokenVerifierService(providers, new JwksService(issuer), config),
+      issuer,
+      config,
+    );
+
+    vi.spyOn(githubProvider as Required<OAuthProviderAdapter>, 'fetchUser').mockResolvedValue({
+      sub: '583231',
+      email: 'octocat@github.com',
+      name: 'The Octocat',
+      picture: 'https://avatar/octocat',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GitHub login', () => {
+    it('sets the github state cookie and returns the authorization URL', async () => {
+      await controller.initiateAuth(
+        'github',
+        { ephemeral_public_key: EPHEMERAL_PUBLIC_KEY },
+        res as unknown as Response,
+      );
+
+      expect(res.cookie).toHaveBeenCalledWith(
+        'github-oauth-state',
+        'stored-state',
+        expect.objectContaining({ path: '/auth/github' }),
+      );
+      expect(authService.generateAuthUrl).toHaveBeenCalledWith('github', 'stored-state', 'stored-nonce', 'verifier');
+      expect(res.json).toHaveBeenCalledWith({ url: 'https://github.com/login/oauth/authorize?state=stored-state' });
+    });
+
+    it('issues an id_token for the GitHub user and enqueues its proof', async () => {
+      await callback('github');
+
+      expect(githubProvider.fetchUser).toHaveBeenCalledWith('gho_token');
+      expect(authService.upsertUser).toHaveBeenCalledWith(
+        '583231',
+        'octocat@github.com',
+        'The Octocat',
+        'https://avatar/octocat',
+        'github',
+        GITHUB_ISSUER,
+        'github-client',
+        expect.objectContaining({ access_token: 'gho_token', id_token: expect.any(String), expires_in: 600 }),
+      );
+
+      const [idToken, nonce, provider, { payload, key }] = authService.enqueueProof.mock.calls[0];
+
+      expect(idToken).toBe(authService.upsertUser.mock.calls[0][7].id_token);
+      expect(nonce).toMatchObject({ nonce: 'stored-nonce', ephemeralPublicKey: EPHEMERAL_PUBLIC_KEY });
+      expect(provider).toBe('github');
+      expect(payload).toMatchObject({ iss: GITHUB_ISSUER, aud: 'github-client', sub: '583231', nonce: 'stored-nonce' });
+      expect(key).toEqual(issuer.getPublicKeys('github')[0]);
+      expect(res.redirect).toHaveBeenCalledWith(`${FRONTEND_ORIGIN}?close=1`);
+    });
+
+    it('consumes the nonce only after the id_token verified', async () => {
+      await callback('github');
+
+      expect(authService.findPendingNonce).toHaveBeenCalledWith({ authState: 'stored-state' });
+      expect(authService.consumeNonce).toHaveBeenCalledWith({ authState: 'stored-state' });
+      expect(authService.consumeNonce.mock.invocationCallOrder[0]).toBeGreaterThan(
+        vi.mocked(githubProvider.fetchUser!).mock.invocationCallOrder[0],
+      );
+    });
+
+    it('leaves the nonce usable when the code exchange fails', async () => {
+      authService.exchangeCode.mockRejectedValueOnce(new UnprocessableEntityException('Failed to exchange code'));
+
+      await expect(callback('github')).rejects.toThrow(UnprocessableEntityException);
+      expect(authService.consumeNonce).not.toHaveBeenCalled();
+
+      await callback('github');
+
+      expect(authService.consumeNonce).toHaveBeenCalledTimes(1);
+      expect(authService.enqueueProof).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves the nonce usable when the GitHub user cannot be fetched', async () => {
+      vi.mocked(githubProvider.fetchUser!).mockRejectedValueOnce(new Error('Bad credentials'));
+
+      await expect(callback('github')).rejects.toThrow(UnprocessableEntityException);
+      expect(authService.consumeNonce).not.toHaveBeenCalled();
+      expect(authService.upsertUser).not.toHaveBeenCalled();
+    });
+
+    it('publishes the keys of the issued id_tokens', () => {
+      expect(controller.getJwks('github')).toEqual({ keys: issuer.getPublicKeys('github') });
+    });
+  });
+});
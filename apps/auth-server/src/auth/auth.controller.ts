@@ -5,9 +5,14 @@ import type { Request, Response } from 'express';
 import type { AuthServerConfig } from '../config/config.interface.js';
 
 import {
+  Body,
   Controller,
   Get,
+  HttpCode,
+  HttpStatus,
   Logger,
+  Param,
+  Post,
   Query,
   Req,
   Res,
@@ -15,21 +20,15 @@ import {
   UnprocessableEntityException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { ApiCookieAuth, ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ApiCookieAuth, ApiOperation, ApiParam, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
 
-import { type JWTPublicKeyData } from '@kzero/common';
-import { Prisma } from '@kzero/database';
-
-import { PrismaService } from '../prisma/prisma.service.js';
-import { AuthUrlResponseDto } from './dto/auth-response.dto.js';
-import { InitiateOAuthDto, OAuthCallbackDto } from './dto/login.dto.js';
-import {
-  getOAuthCookiePath,
-  getOAuthStateCookieName,
-  getOAuthStateCookieOptions,
-  OAUTH_PROVIDERS,
-} from './auth.constants.js';
+import { AuthUrlResponseDto, IdTokenLoginResponseDto } from './dto/auth-response.dto.js';
+import { IdTokenLoginDto, InitiateOAuthDto, OAuthCallbackDto } from './dto/login.dto.js';
+import { OAuthProviderRegistry } from './providers/oauth-provider.registry.js';
+import { getOAuthCookiePath, getOAuthStateCookieName, getOAuthStateCookieOptions } from './auth.constants.js';
 import { AuthService } from './auth.service.js';
+import { IdTokenIssuerService } from './id-token-issuer.service.js';
+import { IdTokenVerifierService } from './id-token-verifier.service.js';
 
 @ApiTags('auth')
 @Controller('auth')
@@ -38,29 +37,127 @@ export class AuthController {
 
   constructor(
     private readonly authService: AuthService,
-    private readonly prisma: PrismaService,
+    private readonly providers: OAuthProviderRegistry,
+    private readonly idTokenVerifier: IdTokenVerifierService,
+    private readonly idTokenIssuer: IdTokenIssuerService,
     private readonly config: ConfigService<AuthServerConfig, true>,
   ) {}
 
-  @Get('google')
+  @Post('token')
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({
-    summary: 'Initiate Google OAuth authorization',
-    description: `Start Google OAuth2.0 authorization flow
+    summary: 'Request a proof for an id_token obtained by the client',
+    description: `Implicit id_token mode, for id_tokens obtained in the browser or a native SDK (e.g. Google One Tap)
 
 **Flow**:
-1. Backend automatically generates nonce and stores it in database
+1. Call GET /auth/:provider to get a nonce for the ephemeral key, and pass that nonce to the provider
+2. POST the resulting id_token together with the ephemeral key
+3. Backend finds the nonce by the id_token's \`nonce\` claim and the provider by its \`iss\` claim
+4. id_token is verified (signature, iss, aud, exp/iat, nonce) and the proof is enqueued
+5. Poll GET /proof for the result`,
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Proof enqueued',
+    type: IdTokenLoginResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed (id_token or ephemeral_public_key format error)',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The nonce was already used by a completed login',
+  })
+  @ApiResponse({
+    status: 422,
+    description:
+      'Unknown nonce or issuer, ephemeral key mismatch, or id_token failed verification (signature, iss, aud, exp/iat, nonce)',
+  })
+  async loginWithIdToken(@Body() body: IdTokenLoginDto): Promise<IdTokenLoginResponseDto> {
+    const { id_token, ephemeral_public_key } = body;
+    const claims = this.idTokenVerifier.decodeUnverified(id_token);
+
+    // Route the token by its unverified claims; verify() checks them against the signed token
+    const nonce = typeof claims.nonce === 'string' ? await this.authService.findNonceByValue(claims.nonce) : null;
+
+    if (!nonce) {
+      throw new UnprocessableEntityException('Invalid id_token - nonce not found');
+    }
+
+    if (nonce.ephemeralPublicKey !== ephemeral_public_key) {
+      throw new UnprocessableEntityException('Ephemeral public key does not match the nonce');
+    }
+
+    const provider = this.providers.findByIssuer(claims.iss);
+
+    if (!provider) {
+      throw new UnprocessableEntityException(`Invalid id_token - no provider configured for issuer ${claims.iss}`);
+    }
+
+    this.logger.log(`${provider} id_token login for ephemeralPublicKey: ${ephemeral_public_key}`);
+
+    const verified = await this.idTokenVerifier.verify(provider, id_token, nonce.nonce);
+    const { payload } = verified;
+
+    // Only a verified token may use up the nonce
+    await this.authService.consumeNonce({ nonce: nonce.nonce });
+
+    await this.authService.upsertUser(
+      payload.sub!,
+      payload.email as string | undefined,
+      payload.name as string | undefined,
+      payload.picture as string | undefined,
+      this.providers.get(provider).adapter.userProvider,
+      payload.iss!,
+      Array.isArray(payload.aud) ? payload.aud[0] : payload.aud!,
+      { id_token, expires_in: Math.max(0, (payload.exp as number) - Math.floor(Date.now() / 1000)) },
+    );
+
+    const status = await this.authService.enqueueProof(id_token, nonce, provider, verified);
+
+    return { status };
+  }
+
+  @Get(':provider')
+  @ApiOperation({
+    summary: 'Initiate OAuth authorization',
+    description: `Start OAuth2.0 authorization flow with a configured provider
+
+**Flow**:
+1. Backend automatically generates nonce and PKCE code verifier and stores them in database
 2. Sets OAuth state cookie (CSRF protection)
-3. Returns Google authorization URL
+3. Returns the provider authorization URL
 4. Frontend redirects user to the URL
 
+Retrying with the same ephemeral key replaces the pending nonce; once a login with the key
+completed or a proof was requested for it, a new ephemeral key is required.
+
 **Note**: Frontend must use \`credentials: 'include'\` to receive cookie`,
   })
+  @ApiParam({ name: 'provider', description: 'OAuth provider name', example: 'google' })
   @ApiQuery({
     name: 'ephemeral_public_key',
     description: 'Ephemeral public key (hexadecimal format with 0x prefix)',
     example: '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
     required: true,
   })
+  @ApiQuery({
+    name: 'max_epoch',
+    description: 'maxEpoch of a client-computed nonce, within the server window (default: the largest allowed)',
+    example: 514,
+    required: false,
+  })
+  @ApiQuery({
+    name: 'randomness',
+    description: 'Decimal randomness of a client-computed nonce (default: generated by the server)',
+    required: false,
+  })
+  @ApiQuery({
+    name: 'nonce',
+    description: 'Client-computed nonce, must match the nonce recomputed from the key, max_epoch and randomness',
+    required: false,
+  })
   @ApiResponse({
     status: 200,
     description: 'Successfully returns OAuth authorization URL',
@@ -68,50 +165,64 @@ export class AuthController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Validation failed (ephemeral_public_key format error)',
+    description:
+      'Validation failed (ephemeral_public_key format error, max_epoch outside the window, or nonce inconsistent)',
   })
-  @ApiCookieAuth('google-oauth-state')
-  async initiateGoogleAuth(@Query() query: InitiateOAuthDto, @Res() res: Response) {
-    const { ephemeral_public_key } = query;
-
-    this.logger.log(`Initiating Google OAuth for ephemeralPublicKey: ${ephemeral_public_key}`);
-
-    // Auto-generate nonce (replicating old Fastify logic)
-    const { nonce, authState } = await this.authService.generateAndStoreNonce(ephemeral_public_key);
-
-    // Set state cookie for CSRF protection (replicating Fastify @fastify/oauth2 behavior)
-    const cookieName = getOAuthStateCookieName(OAUTH_PROVIDERS.GOOGLE);
-    const cookieOptions = getOAuthStateCookieOptions(
-      this.config.get('nodeEnv', { infer: true }) === 'production',
-      OAUTH_PROVIDERS.GOOGLE,
-    );
-
-    res.cookie(cookieName, authState, cookieOptions);
+  @ApiResponse({
+    status: 404,
+    description: 'OAuth provider is not configured',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'A login with this ephemeral public key already completed or requested a proof, or randomness is already in use',
+  })
+  @ApiCookieAuth('{provider}-oauth-state')
+  async initiateAuth(@Param('provider') providerName: string, @Query() query: InitiateOAuthDto, @Res() res: Response) {
+    // Resolve before storing a nonce so unknown providers fail fast
+    const { settings } = this.providers.get(providerName);
 
-    this.logger.log(`Generated authState: ${authState}, cookie set`);
+    return this.initiateOAuth(settings.name, query, res);
+  }
 
-    // Use authState as the OAuth state parameter
-    const authUrl = this.authService.generateGoogleAuthUrl(authState, nonce);
+  @Get(':provider/jwks')
+  @ApiOperation({
+    summary: 'Keys of the id_tokens issued by this server',
+    description: `JSON Web Key Set of providers without OpenID Connect (GitHub), whose id_tokens the auth-server
+issues itself. Verifiers of the zkLogin proof fetch the issuer keys from here.`,
+  })
+  @ApiParam({ name: 'provider', description: 'OAuth provider name', example: 'github' })
+  @ApiResponse({
+    status: 200,
+    description: 'The JSON Web Key Set',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'OAuth provider is not configured, or its id_tokens are not issued by this server',
+  })
+  getJwks(@Param('provider') providerName: string) {
+    const { settings } = this.providers.get(providerName);
 
-    return res.json({ url: authUrl });
+    return { keys: this.idTokenIssuer.getPublicKeys(settings.name) };
   }
 
-  @Get('google/callback')
+  @Get(':provider/callback')
   @ApiOperation({
-    summary: 'Google OAuth callback handler',
-    description: `Handle Google OAuth redirect callback
+    summary: 'OAuth callback handler',
+    description: `Handle OAuth redirect callback
 
 **Internal Flow**:
 1. Verify OAuth state (Cookie + Database dual verification)
-2. Exchange authorization code for tokens
-3. Parse JWT to get user information
-4. Generate salt (call salt server or use random value)
+2. Exchange authorization code for tokens (with the PKCE code verifier)
+3. Verify the id_token, issued by the auth-server for providers without OpenID Connect (GitHub)
+4. Get salt from the configured salt provider (salt server, HKDF master seed or random in dev)
 5. Generate ZK proof input
 6. Store proof to database
 7. Redirect to frontend
 
-**Note**: This endpoint is typically called automatically by Google, no manual request needed`,
+**Note**: This endpoint is typically called automatically by the provider, no manual request needed`,
   })
+  @ApiParam({ name: 'provider', description: 'OAuth provider name', example: 'google' })
   @ApiQuery({ name: 'code', description: 'OAuth authorization code', required: true, example: '4/0AY0e-g7...' })
   @ApiQuery({ name: 'state', description: 'OAuth state parameter (for verification)', required: true })
   @ApiResponse({
@@ -122,18 +233,73 @@ export class AuthController {
     status: 401,
     description: 'CSRF verification failed (state cookie mismatch or missing)',
   })
+  @ApiResponse({
+    status: 404,
+    description: 'OAuth provider is not configured',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Replayed callback, the state was already used by a completed login',
+  })
   @ApiResponse({
     status: 422,
-    description: 'Invalid authorization code or JWT format error',
+    description: 'Invalid authorization code, or id_token failed verification (signature, iss, aud, exp/iat, nonce)',
   })
-  async handleGoogleCallback(
+  async handleCallback(
+    @Param('provider') providerName: string,
     @Query() query: OAuthCallbackDto & Record<string, unknown>,
     @Req() req: Request,
     @Res() res: Response,
+  ) {
+    const { settings } = this.providers.get(providerName);
+
+    return this.completeOAuth(settings.name, query, req, res);
+  }
+
+  /**
+   * Start an OAuth flow: store a nonce, set the state cookie and return the authorization URL
+   */
+  private async initiateOAuth(provider: string, query: InitiateOAuthDto, res: Response) {
+    const { ephemeral_public_key, max_epoch, randomness, nonce: clientNonce } = query;
+
+    this.logger.log(`Initiating ${provider} OAuth for ephemeralPublicKey: ${ephemeral_public_key}`);
+
+    // Generate nonce, or recompute the client's within server policy
+    const { nonce, authState, codeVerifier } = await this.authService.generateAndStoreNonce(ephemeral_public_key, {
+      maxEpoch: max_epoch,
+      randomness,
+      nonce: clientNonce,
+    });
+
+    // Set state cookie for CSRF protection (replicating Fastify @fastify/oauth2 behavior)
+    const cookieName = getOAuthStateCookieName(provider);
+    const cookieOptions = getOAuthStateCookieOptions(
+      this.config.get('nodeEnv', { infer: true }) === 'production',
+      provider,
+    );
+
+    res.cookie(cookieName, authState, cookieOptions);
+
+    this.logger.log(`Generated authState: ${authState}, cookie set`);
+
+    // Use authState as the OAuth state parameter
+    const authUrl = await this.authService.generateAuthUrl(provider, authState, nonce, codeVerifier);
+
+    return res.json({ url: authUrl });
+  }
+
+  /**
+   * Finish an OAuth flow: verify state, exchange the code, store the user and enqueue the proof
+   */
+  private async completeOAuth(
+    provider: string,
+    query: OAuthCallbackDto & Record<string, unknown>,
+    req: Request,
+    res: Response,
   ) {
     const { state, code, scope, authuser, prompt } = query;
 
-    this.logger.log(`Google callback - authState: ${state}`);
+    this.logger.log(`${provider} callback - authState: ${state}`);
 
     // Log OAuth metadata for audit and debugging
     if (scope || authuser || prompt) {
@@ -148,8 +314,8 @@ export class AuthController {
     }
 
     // Verify OAuth state cookie (CSRF protection)
-    const cookieName = getOAuthStateCookieName(OAUTH_PROVIDERS.GOOGLE);
-    const cookiePath = getOAuthCookiePath(OAUTH_PROVIDERS.GOOGLE);
+    const cookieName = getOAuthStateCookieName(provider);
+    const cookiePath = getOAuthCookiePath(provider);
 
     const stateCookie = req.cookies[cookieName];
 
@@ -166,94 +332,46 @@ export class AuthController {
     this.logger.debug('State verification passed, clearing cookie');
     res.clearCookie(cookieName, { path: cookiePath });
 
-    // Verify nonce exists in database
-    const nonce = await this.authService.findNonceByAuthState(state);
+    // Verify nonce exists in database, a replayed state is rejected. It is only consumed once the
+    // id_token verified, so a failed code exchange leaves the login retryable
+    const nonce = await this.authService.findPendingNonce({ authState: state });
 
     if (!nonce) {
       throw new UnprocessableEntityException('Invalid state parameter - nonce not found');
     }
 
     // Exchange authorization code for tokens
-    const tokenData = await this.authService.exchangeGoogleCode(code);
+    const tokens = await this.authService.exchangeCode(provider, code, nonce.codeVerifier);
+
+    // Providers without OpenID Connect (GitHub) get an id_token issued by the auth-server
+    const tokenData = this.idTokenIssuer.issues(provider)
+      ? await this.idTokenIssuer.issue(provider, tokens, nonce.nonce)
+      : tokens;
 
     if (!tokenData.id_token) {
       throw new UnprocessableEntityException('No id_token in response');
     }
 
-    // Decode JWT and validate required claims
-    const payload = this.authService.decodeJWT(tokenData.id_token);
+    // Verify signature, issuer, audience, validity window and nonce before any proof work
+    const verified = await this.idTokenVerifier.verify(provider, tokenData.id_token, nonce.nonce);
+    const { payload } = verified;
 
-    if (!payload.sub) {
-      throw new UnprocessableEntityException('Invalid JWT: missing sub claim');
-    }
-
-    if (!payload.aud) {
-      throw new UnprocessableEntityException('Invalid JWT: missing aud claim');
-    }
+    // Only a verified token may use up the nonce
+    await this.authService.consumeNonce({ authState: state });
 
     // Create or update user record
     await this.authService.upsertUser(
-      payload.sub,
+      payload.sub!,
       payload.email as string | undefined,
       payload.name as string | undefined,
       payload.picture as string | undefined,
-      'google',
-      payload.aud as string,
+      this.providers.get(provider).adapter.userProvider,
+      payload.iss!,
+      Array.isArray(payload.aud) ? payload.aud[0] : payload.aud!,
       tokenData,
     );
 
-    try {
-      // Generate salt (production: external server, dev: random)
-      this.logger.debug('Generating salt from salt server');
-      const salt = await this.authService.generateSalt(tokenData.id_token);
-
-      this.logger.debug(`Salt generated: ${salt}`);
-
-      // Fetch Google's public keys for JWT signature verification
-      const certs = await fetch(this.config.get('google.certUrl', { infer: true }))
-        .then((r) => r.json())
-        .then((json) => (json as { keys: JWTPublicKeyData[] }).keys);
-
-      // Generate ZK proof inputs from JWT + salt + nonce
-      const { generateZKInput } = await import('@kzero/common');
-
-      const { fields, inputs } = await generateZKInput({
-        jwt: tokenData.id_token,
-        salt,
-        epoch: nonce.maxEpoch.toString(),
-        keyStr: nonce.ephemeralPublicKey as `0x${string}`,
-        randomness: nonce.randomness,
-        certs,
-      });
-
-      // Store proof inputs with 'waiting' status for worker processing
-      await this.prisma.proof.create({
-        data: {
-          nonce: nonce.nonce,
-          jwt: tokenData.id_token,
-          inputs: inputs as unknown as Prisma.InputJsonValue,
-          fields: fields as unknown as Prisma.InputJsonValue,
-          proof: Prisma.JsonNull,
-          public: Prisma.JsonNull,
-          status: 'waiting',
-        },
-      });
-    } catch (error) {
-      // Create failed proof record for error tracking
-      this.logger.error('Failed to create proof', error);
-
-      await this.prisma.proof.create({
-        data: {
-          nonce: nonce.nonce,
-          jwt: tokenData.id_token,
-          inputs: {} as Prisma.InputJsonValue,
-          fields: Prisma.JsonNull,
-          proof: Prisma.JsonNull,
-          public: Prisma.JsonNull,
-          status: 'failed',
-        },
-      });
-    }
+    await this.authService.enqueueProof(tokenData.id_token, nonce, provider, verified);
 
     const frontendOrigin = this.config.get('frontend.origin', { infer: true });
 
@@ -3,14 +3,30 @@
 
 import { Module } from '@nestjs/common';
 
+import { EpochModule } from '../epoch/epoch.module.js';
 import { PrismaModule } from '../prisma/prisma.module.js';
+import { SaltModule } from '../salt/salt.module.js';
+import { OAuthProviderRegistry } from './providers/oauth-provider.registry.js';
+import { OidcDiscoveryService } from './providers/oidc-discovery.service.js';
 import { AuthController } from './auth.controller.js';
 import { AuthService } from './auth.service.js';
+import { IdTokenIssuerService } from './id-token-issuer.service.js';
+import { IdTokenVerifierService } from './id-token-verifier.service.js';
+import { JwksService } from './jwks.service.js';
+import { NonceCleanupService } from './nonce-cleanup.service.js';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [EpochModule, PrismaModule, SaltModule],
   controllers: [AuthController],
-  providers: [AuthService],
+  providers: [
+    AuthService,
+    IdTokenIssuerService,
+    IdTokenVerifierService,
+    JwksService,
+    NonceCleanupService,
+    OAuthProviderRegistry,
+    OidcDiscoveryService,
+  ],
   exports: [AuthService],
 })
 export class AuthModule {}
@@ -0,0 +1,336 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { ConfigService } from '@nestjs/config';
+import type { AuthServerConfig } from '../config/config.interface.js';
+import type { EpochService } from '../epoch/epoch.service.js';
+import type { PrismaService } from '../prisma/prisma.service.js';
+import type { SaltService } from '../salt/salt.service.js';
+import type { OAuthProviderRegistry } from './providers/oauth-provider.registry.js';
+
+import { BadRequestException, ConflictException, UnprocessableEntityException } from '@nestjs/common';
+import axios from 'axios';
+import { createHash } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BN254_FIELD_MODULUS, generateNonce } from '@kzero/common';
+import { Prisma } from '@kzero/database';
+
+import { AuthService, createCodeChallenge } from './auth.service.js';
+
+const EPHEMERAL_PUBLIC_KEY = '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+
+const PROVIDER_SETTINGS = {
+  name: 'example',
+  clientId: 'client-id',
+  redirectUri: 'https://kzero.example.com/auth/example/callback',
+  authorizeUrl: 'https://accounts.example.com/authorize',
+  tokenUrl: 'https://accounts.example.com/token',
+  scopes: ['openid', 'email'],
+};
+
+const storedNonce = (overrides: Record<string, unknown> = {}) => ({
+  id: 'nonce-id',
+  ephemeralPublicKey: EPHEMERAL_PUBLIC_KEY,
+  nonce: 'stored-nonce',
+  randomness: '123',
+  maxEpoch: 1n,
+  authState: 'stored-state',
+  codeVerifier: 'verifier',
+  consumedAt: null,
+  expiresAt: new Date(Date.now() + 600_000),
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('AuthService', () => {
+  let prisma: {
+    nonce: Record<'findUnique' | 'upsert' | 'updateMany' | 'deleteMany', ReturnType<typeof vi.fn>>;
+    proof: Record<'findUnique', ReturnType<typeof vi.fn>>;
+  };
+  let getMaxEpoch: ReturnType<typeof vi.fn>;
+  let providers: Record<'resolve', ReturnType<typeof vi.fn>>;
+  let service: AuthService;
+
+  beforeEach(() => {
+    prisma = {
+      nonce: {
+        findUnique: vi.fn(),
+        // Echo the written row back like Prisma does
+        upsert: vi.fn(({ create, update }) => Promise.resolve(storedNonce(update ?? create))),
+        updateMany: vi.fn(),
+        deleteMany: vi.fn(),
+      },
+      proof: {
+        findUnique: vi.fn().mockResolvedValue(null),
+      },
+    };
+    getMaxEpoch = vi.fn((requested?: number) =>
+      Promise.resolve({ maxEpoch: requested ?? 514, expiresAt: new Date('2025-01-04T00:00:00Z') }),
+    );
+
+    providers = { resolve: vi.fn().mockResolvedValue({ settings: PROVIDER_SETTINGS, adapter: {} }) };
+
+    service = new AuthService(
+      prisma as unknown as PrismaService,
+      { get: () => 600 } as unknown as ConfigService<AuthServerConfig, true>,
+      providers as unknown as OAuthProviderRegistry,
+      {} as SaltService,
+      { getMaxEpoch } as unknown as EpochService,
+    );
+  });
+
+  describe('generateAndStoreNonce', () => {
+    it('stores a nonce for a new ephemeral key', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(null);
+
+      const result = await service.generateAndStoreNonce(EPHEMERAL_PUBLIC_KEY);
+
+      expect(prisma.nonce.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { ephemeralPublicKey: EPHEMERAL_PUBLIC_KEY },
+          create: expect.objectContaining({ ephemeralPublicKey: EPHEMERAL_PUBLIC_KEY, nonce: result.nonce }),
+        }),
+      );
+      expect(result.authState).toHaveLength(43);
+    });
+
+    it('binds the nonce to the maxEpoch of the epoch provider', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(null);
+
+      const result = await service.generateAndStoreNonce(EPHEMERAL_PUBLIC_KEY);
+
+      expect(result.maxEpoch).toBe(514);
+      expect(prisma.nonce.upsert.mock.calls[0][0].create).toMatchObject({
+        maxEpoch: 514n,
+        maxEpochExpiresAt: new Date('2025-01-04T00:00:00Z'),
+      });
+    });
+
+    it('sets the nonce expiry from the configured TTL', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(null);
+
+      const before = Date.now();
+
+      await service.generateAndStoreNonce(EPHEMERAL_PUBLIC_KEY);
+
+      const { expiresAt } = prisma.nonce.upsert.mock.calls[0][0].create as { expiresAt: Date };
+
+      expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + 600_000);
+      expect(expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 600_000);
+    });
+
+    it('replaces the pending nonce when initiation is retried with the same key', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(storedNonce());
+
+      const result = await service.generateAndStoreNonce(EPHEMERAL_PUBLIC_KEY);
+
+      expect(result.nonce).not.toBe('stored-nonce');
+      expect(result.authState).not.toBe('stored-state');
+      expect(prisma.nonce.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({ nonce: result.nonce, authState: result.authState, consumedAt: null }),
+        }),
+      );
+    });
+
+    it('rejects a retry while the callback of the key is enqueueing the proof with 409', async () => {
+      // Nonce consumed by the callback, the proof is not stored yet
+      prisma.nonce.findUnique.mockResolvedValue(storedNonce({ consumedAt: new Date() }));
+      prisma.proof.findUnique.mockResolvedValue(null);
+
+      await expect(service.generateAndStoreNonce(EPHEMERAL_PUBLIC_KEY)).rejects.toBeInstanceOf(ConflictException);
+      expect(prisma.nonce.upsert).not.toHaveBeenCalled();
+    });
+
+    it('rejects a key that already has a proof with 409', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(storedNonce());
+      prisma.proof.findUnique.mockResolvedValue({ id: 'proof-id' });
+
+      await expect(service.generateAndStoreNonce(EPHEMERAL_PUBLIC_KEY)).rejects.toBeInstanceOf(ConflictException);
+      expect(prisma.nonce.upsert).not.toHaveBeenCalled();
+    });
+
+    it('recomputes the nonce from client-chosen maxEpoch and randomness', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(null);
+
+      const expected = generateNonce(EPHEMERAL_PUBLIC_KEY, 513, '42');
+      const result = await service.generateAndStoreNonce(EPHEMERAL_PUBLIC_KEY, {
+        maxEpoch: 513,
+        randomness: '42',
+        nonce: expected.nonce,
+      });
+
+      expect(getMaxEpoch).toHaveBeenCalledWith(513);
+      expect(result).toMatchObject({ nonce: expected.nonce, randomness: '42', maxEpoch: 513 });
+    });
+
+    it('rejects a client nonce that does not match its inputs with 400', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.generateAndStoreNonce(EPHEMERAL_PUBLIC_KEY, { maxEpoch: 513, randomness: '42', nonce: 'forged' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.nonce.upsert).not.toHaveBeenCalled();
+    });
+
+    it('rejects a client nonce without maxEpoch and randomness with 400', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(null);
+
+      await expect(service.generateAndStoreNonce(EPHEMERAL_PUBLIC_KEY, { nonce: 'nonce' })).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+
+    it('rejects randomness outside the BN254 field with 400', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.generateAndStoreNonce(EPHEMERAL_PUBLIC_KEY, { randomness: BN254_FIELD_MODULUS.toString() }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('rejects randomness already used by another login with 409', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(null);
+      prisma.nonce.upsert.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' }),
+      );
+
+      await expect(service.generateAndStoreNonce(EPHEMERAL_PUBLIC_KEY, { randomness: '42' })).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('PKCE', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('stores a new 43-character code verifier with every nonce', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(null);
+
+      const first = await service.generateAndStoreNonce(EPHEMERAL_PUBLIC_KEY);
+      const second = await service.generateAndStoreNonce(EPHEMERAL_PUBLIC_KEY);
+
+      expect(first.codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(second.codeVerifier).not.toBe(first.codeVerifier);
+      expect(prisma.nonce.upsert.mock.calls[0][0].create).toMatchObject({ codeVerifier: first.codeVerifier });
+    });
+
+    it('derives the S256 code challenge as BASE64URL(SHA256(verifier))', () => {
+      const verifier = 'dBjftJeZ4CVP-mJ0DYZlm2V4Qxx5iY1gFH6VNxI7I6w';
+
+      expect(createCodeChallenge(verifier)).toBe(createHash('sha256').update(verifier, 'ascii').digest('base64url'));
+      expect(createCodeChallenge(verifier)).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    });
+
+    it('sends the code challenge on the authorization URL', async () => {
+      const url = new URL(await service.generateAuthUrl('example', 'state', 'nonce', 'verifier'));
+
+      expect(url.origin + url.pathname).toBe(PROVIDER_SETTINGS.authorizeUrl);
+      expect(Object.fromEntries(url.searchParams)).toMatchObject({
+        state: 'state',
+        nonce: 'nonce',
+        code_challenge: createCodeChallenge('verifier'),
+        code_challenge_method: 'S256',
+      });
+      expect(url.searchParams.has('code_verifier')).toBe(false);
+    });
+
+    it('sends the code verifier on the code exchange', async () => {
+      const post = vi.spyOn(axios, 'post').mockResolvedValue({ data: { id_token: 'id-token' } });
+
+      await expect(service.exchangeCode('example', 'code', 'verifier')).resolves.toEqual({ id_token: 'id-token' });
+
+      const [url, params] = post.mock.calls[0] as [string, URLSearchParams];
+
+      expect(url).toBe(PROVIDER_SETTINGS.tokenUrl);
+      expect(params.get('code')).toBe('code');
+      expect(params.get('code_verifier')).toBe('verifier');
+      expect(params.has('client_secret')).toBe(false);
+    });
+
+    it('omits the code verifier for logins started before PKCE', async () => {
+      const post = vi.spyOn(axios, 'post').mockResolvedValue({ data: {} });
+
+      await service.exchangeCode('example', 'code', null);
+
+      expect((post.mock.calls[0][1] as URLSearchParams).has('code_verifier')).toBe(false);
+    });
+  });
+
+  describe('consumeNonce', () => {
+    it('marks a pending nonce as used', async () => {
+      prisma.nonce.updateMany.mockResolvedValue({ count: 1 });
+      prisma.nonce.findUnique.mockResolvedValue(storedNonce({ consumedAt: new Date() }));
+
+      await expect(service.consumeNonce({ authState: 'stored-state' })).resolves.toMatchObject({
+        nonce: 'stored-nonce',
+      });
+      expect(prisma.nonce.updateMany).toHaveBeenCalledWith({
+        where: { authState: 'stored-state', consumedAt: null, expiresAt: { gt: expect.any(Date) } },
+        data: { consumedAt: expect.any(Date) },
+      });
+    });
+
+    it('rejects a replayed authState with 409', async () => {
+      prisma.nonce.updateMany.mockResolvedValue({ count: 0 });
+      prisma.nonce.findUnique.mockResolvedValue(storedNonce({ consumedAt: new Date() }));
+
+      await expect(service.consumeNonce({ authState: 'stored-state' })).rejects.toBeInstanceOf(ConflictException);
+    });
+
+    it('rejects an expired nonce with 422', async () => {
+      prisma.nonce.updateMany.mockResolvedValue({ count: 0 });
+      prisma.nonce.findUnique.mockResolvedValue(storedNonce({ expiresAt: new Date(Date.now() - 1000) }));
+
+      await expect(service.consumeNonce({ authState: 'stored-state' })).rejects.toBeInstanceOf(
+        UnprocessableEntityException,
+      );
+    });
+
+    it('returns null for an unknown authState', async () => {
+      prisma.nonce.updateMany.mockResolvedValue({ count: 0 });
+      prisma.nonce.findUnique.mockResolvedValue(null);
+
+      await expect(service.consumeNonce({ authState: 'unknown' })).resolves.toBeNull();
+    });
+  });
+
+  describe('findPendingNonce', () => {
+    it('returns a pending nonce without consuming it', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(storedNonce());
+
+      await expect(service.findPendingNonce({ authState: 'stored-state' })).resolves.toMatchObject({
+        nonce: 'stored-nonce',
+      });
+      expect(prisma.nonce.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects a consumed nonce with 409', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(storedNonce({ consumedAt: new Date() }));
+
+      await expect(service.findPendingNonce({ authState: 'stored-state' })).rejects.toBeInstanceOf(ConflictException);
+    });
+
+    it('rejects an expired nonce with 422', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(storedNonce({ expiresAt: new Date(Date.now() - 1000) }));
+
+      await expect(service.findPendingNonce({ authState: 'stored-state' })).rejects.toBeInstanceOf(
+        UnprocessableEntityException,
+      );
+    });
+  });
+
+  describe('purgeExpiredNonces', () => {
+    it('deletes only expired nonces that were never consumed', async () => {
+      prisma.nonce.deleteMany.mockResolvedValue({ count: 3 });
+
+      await expect(service.purgeExpiredNonces()).resolves.toBe(3);
+      expect(prisma.nonce.deleteMany).toHaveBeenCalledWith({
+        where: { consumedAt: null, expiresAt: { lte: expect.any(Date) } },
+      });
+    });
+  });
+});
@@ -1,23 +1,55 @@
 // Copyright 2024-2025 kzero authors & contributors
 // SPDX-License-Identifier: GNU General Public License v3.0
 
+import type { Nonce, Provider } from '@kzero/database';
 import type { AuthServerConfig } from '../config/config.interface.js';
-
-import { Injectable, Logger, UnprocessableEntityException } from '@nestjs/common';
+import type { VerifiedIdToken } from './id-token-verifier.service.js';
+import type { OAuth2TokenResponse } from './providers/oauth-provider.interface.js';
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
-import { randomBytes } from 'node:crypto';
+import { createHash, randomBytes } from 'node:crypto';
 
-import { generateNonce, type JWTPayload } from '@kzero/common';
+import { BN254_FIELD_MODULUS, generateNonce } from '@kzero/common';
+import { Prisma } from '@kzero/database';
 
+import { EpochService } from '../epoch/epoch.service.js';
 import { PrismaService } from '../prisma/prisma.service.js';
+import { SaltError } from '../salt/salt.errors.js';
+import { SaltService } from '../salt/salt.service.js';
+import { OAuthProviderRegistry } from './providers/oauth-provider.registry.js';
+
+/**
+ * Tokens stored on the user record
+ *
+ * Implicit id_token logins only have the id_token, the remaining fields come from the code exchange.
+ */
+export type UserTokens = Partial<OAuth2TokenResponse> & Pick<OAuth2TokenResponse, 'id_token' | 'expires_in'>;
+
+/**
+ * Values a client computed its zkLogin nonce with
+ */
+export interface ClientNonce {
+  maxEpoch?: number;
+  randomness?: string;
+  nonce?: string;
+}
 
-interface OAuth2TokenResponse {
-  access_token: string;
-  token_type: string;
-  expires_in: number;
-  id_token?: string;
-  refresh_token?: string;
+/**
+ * Derive the PKCE S256 code challenge from a code verifier
+ *
+ * @param codeVerifier - The PKCE code verifier
+ * @returns BASE64URL(SHA256(code_verifier))
+ */
+export function createCodeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
 }
 
 @Injectable()
@@ -27,146 +59,279 @@ export class AuthService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly config: ConfigService<AuthServerConfig, true>,
+    private readonly providers: OAuthProviderRegistry,
+    private readonly salt: SaltService,
+    private readonly epoch: EpochService,
   ) {}
 
   /**
    * Generate and store a new nonce for zkLogin
    *
+   * An ephemeral key has at most one nonce. A retried initiation with the same key replaces
+   * the pending nonce (and its authState), so only the latest login attempt can complete.
+   * A consumed nonce is never replaced: its login completed and may still be enqueueing the proof.
+   *
    * @param ephemeralPublicKey - The ephemeral public key in hexadecimal format
-   * @returns The generated nonce data including authState for OAuth
+   * @param clientNonce - maxEpoch, randomness and nonce the client computed its nonce with, if any
+   * @returns The generated nonce data including authState and PKCE codeVerifier for OAuth
+   * @throws BadRequestException if the client values are outside the server policy or inconsistent
+   * @throws ConflictException if a login with this ephemeral key completed or requested a proof
+   * @throws ServiceUnavailableException if the current epoch cannot be determined
    */
-  async generateAndStoreNonce(ephemeralPublicKey: string) {
+  async generateAndStoreNonce(ephemeralPublicKey: string, clientNonce: ClientNonce = {}) {
     this.logger.log(`Generating nonce for ephemeralPublicKey: ${ephemeralPublicKey}`);
 
-    // Generate nonce using @kzero/common
-    const { nonce, randomness, maxEpoch } = generateNonce(ephemeralPublicKey as `0x${string}`);
+    if (clientNonce.nonce && (clientNonce.maxEpoch === undefined || clientNonce.randomness === undefined)) {
+      throw new BadRequestException('nonce can only be checked together with max_epoch and randomness');
+    }
+
+    // The circuit hashes randomness as a field element
+    if (clientNonce.randomness !== undefined && BigInt(clientNonce.randomness) >= BN254_FIELD_MODULUS) {
+      throw new BadRequestException('randomness must be smaller than the BN254 field modulus');
+    }
+
+    // Generate nonce using @kzero/common, bound to the configured epoch source
+    const { maxEpoch: epoch, expiresAt: maxEpochExpiresAt } = await this.epoch.getMaxEpoch(clientNonce.maxEpoch);
+    const { nonce, randomness, maxEpoch } = generateNonce(
+      ephemeralPublicKey as `0x${string}`,
+      epoch,
+      clientNonce.randomness,
+    );
+
+    if (clientNonce.nonce && clientNonce.nonce !== nonce) {
+      throw new BadRequestException('nonce does not match ephemeral_public_key, max_epoch and randomness');
+    }
 
     // Generate random state for OAuth CSRF protection
     const authState = randomBytes(32).toString('base64url');
 
-    // Store in database
-    const storedNonce = await this.prisma.nonce.create({
-      data: {
-        ephemeralPublicKey,
-        nonce,
-        randomness,
-        maxEpoch: BigInt(maxEpoch),
-        authState,
-      },
+    // Generate PKCE code verifier (43 characters, within the 43-128 range of RFC 7636)
+    const codeVerifier = randomBytes(32).toString('base64url');
+
+    const existingNonce = await this.prisma.nonce.findUnique({
+      where: { ephemeralPublicKey },
     });
 
-    this.logger.log(`Nonce created with authState: ${authState}`);
+    if (existingNonce) {
+      // The callback consumes the nonce before the proof is stored, replacing it in between
+      // would let the proof be enqueued for a nonce the client no longer holds
+      if (existingNonce.consumedAt) {
+        throw new ConflictException('A login with this ephemeral public key already completed, use a new key');
+      }
+
+      const existingProof = await this.prisma.proof.findUnique({
+        where: { nonce: existingNonce.nonce },
+        select: { id: true },
+      });
+
+      if (existingProof) {
+        throw new ConflictException('A proof was already requested for this ephemeral public key, use a new key');
+      }
+
+      this.logger.log(`Replacing pending nonce for ephemeralPublicKey: ${ephemeralPublicKey}`);
+    }
+
+    const data = {
+      nonce,
+      randomness,
+      maxEpoch: BigInt(maxEpoch),
+      maxEpochExpiresAt,
+      authState,
+      codeVerifier,
+      consumedAt: null,
+      expiresAt: new Date(Date.now() + this.config.get('nonce.ttlSeconds', { infer: true }) * 1000),
+    };
+
+    let storedNonce;
+
+    try {
+      // Store in database, replacing the pending nonce of a retried initiation
+      storedNonce = await this.prisma.nonce.upsert({
+        where: { ephemeralPublicKey },
+        create: { ephemeralPublicKey, ...data },
+        update: data,
+      });
+    } catch (error) {
+      // Client-chosen randomness (and so the nonce) must not collide with another login
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException('randomness is already in use, choose a new one');
+      }
+
+      throw error;
+    }
+
+    this.logger.log(`Nonce stored with authState: ${authState}`);
 
     return {
       nonce: storedNonce.nonce,
       randomness: storedNonce.randomness,
       maxEpoch: Number(storedNonce.maxEpoch),
       authState: storedNonce.authState,
+      codeVerifier,
     };
   }
 
   /**
-   * Find a nonce by its authState
+   * Mark a nonce as used so its login cannot be completed twice
+   *
+   * @param where - The OAuth state parameter or the nonce value
+   * @returns The consumed nonce record, or null if not found
+   * @throws ConflictException if the nonce was already consumed
+   * @throws UnprocessableEntityException if the nonce expired before the login completed
+   */
+  async consumeNonce(where: { authState: string } | { nonce: string }) {
+    const now = new Date();
+
+    // Conditional update, so concurrent replays cannot both consume the nonce
+    const { count } = await this.prisma.nonce.updateMany({
+      where: { ...where, consumedAt: null, expiresAt: { gt: now } },
+      data: { consumedAt: now },
+    });
+
+    const storedNonce = await this.prisma.nonce.findUnique({ where });
+
+    if (count === 0 && storedNonce) {
+      this.rejectUnusableNonce(storedNonce);
+    }
+
+    return storedNonce;
+  }
+
+  /**
+   * Find a nonce whose login can still complete, without consuming it
+   *
+   * @param where - The OAuth state parameter or the nonce value
+   * @returns The nonce record, or null if not found
+   * @throws ConflictException if the nonce was already consumed
+   * @throws UnprocessableEntityException if the nonce expired
+   */
+  async findPendingNonce(where: { authState: string } | { nonce: string }) {
+    const storedNonce = await this.prisma.nonce.findUnique({ where });
+
+    if (storedNonce && (storedNonce.consumedAt || storedNonce.expiresAt <= new Date())) {
+      this.rejectUnusableNonce(storedNonce);
+    }
+
+    return storedNonce;
+  }
+
+  private rejectUnusableNonce(storedNonce: Nonce): never {
+    if (storedNonce.consumedAt) {
+      this.logger.warn(`Replay of consumed nonce ${storedNonce.nonce}`);
+      throw new ConflictException('This login was already completed');
+    }
+
+    throw new UnprocessableEntityException('Login expired, please start again');
+  }
+
+  /**
+   * Delete nonces whose login expired without completing
+   *
+   * Consumed nonces are kept, proofs are looked up through them.
+   *
+   * @returns Number of deleted nonces
+   */
+  async purgeExpiredNonces(): Promise<number> {
+    const { count } = await this.prisma.nonce.deleteMany({
+      where: { consumedAt: null, expiresAt: { lte: new Date() } },
+    });
+
+    return count;
+  }
+
+  /**
+   * Find a nonce by its value (the `nonce` claim of an id_token)
    *
-   * @param authState - The OAuth state parameter
+   * @param nonce - The nonce value
    * @returns The nonce record or null if not found
    */
-  async findNonceByAuthState(authState: string) {
+  async findNonceByValue(nonce: string) {
     return this.prisma.nonce.findUnique({
-      where: { authState },
+      where: { nonce },
     });
   }
 
   /**
-   * Generate Google OAuth authorization URL
+   * Generate OAuth authorization URL for a provider
    *
+   * @param providerName - Registered provider name
    * @param state - OAuth state parameter for CSRF protection
    * @param nonce - The nonce that binds the ephemeral key to the OAuth flow
-   * @returns The complete Google authorization URL
+   * @param codeVerifier - PKCE code verifier stored with the nonce
+   * @returns The complete provider authorization URL
+   * @throws NotFoundException if the provider is not configured
    */
-  generateGoogleAuthUrl(state: string, nonce: string): string {
-    const clientId = this.config.get('google.clientId', { infer: true });
-    const redirectUri = this.config.get('google.redirectUri', { infer: true });
+  async generateAuthUrl(providerName: string, state: string, nonce: string, codeVerifier: string): Promise<string> {
+    const { settings } = await this.providers.resolve(providerName);
 
     const params = new URLSearchParams({
-      client_id: clientId,
-      redirect_uri: redirectUri,
+      client_id: settings.clientId,
+      redirect_uri: settings.redirectUri,
       response_type: 'code',
-      scope: 'openid email profile',
+      scope: settings.scopes.join(' '),
       state,
       nonce,
+      code_challenge: createCodeChallenge(codeVerifier),
+      code_challenge_method: 'S256',
     });
 
-    return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
+    return `${settings.authorizeUrl}?${params.toString()}`;
   }
 
   /**
    * Exchange OAuth authorization code for tokens
    *
-   * @param code - The authorization code received from Google's callback
+   * @param providerName - Registered provider name
+   * @param code - The authorization code received from the provider's callback
+   * @param codeVerifier - PKCE code verifier stored with the nonce (null for logins started before PKCE)
    * @returns OAuth token response including access_token, refresh_token, and id_token
    * @throws UnprocessableEntityException if token exchange fails
    */
-  async exchangeGoogleCode(code: string): Promise<OAuth2TokenResponse> {
-    const clientId = this.config.get('google.clientId', { infer: true });
-    const clientSecret = this.config.get('google.clientSecret', { infer: true });
-    const redirectUri = this.config.get('google.redirectUri', { infer: true });
+  async exchangeCode(providerName: string, code: string, codeVerifier: string | null): Promise<OAuth2TokenResponse> {
+    const { settings, adapter } = await this.providers.resolve(providerName);
 
     const params = new URLSearchParams({
       code,
-      client_id: clientId,
-      client_secret: clientSecret,
-      redirect_uri: redirectUri,
+      client_id: settings.clientId,
+      redirect_uri: settings.redirectUri,
       grant_type: 'authorization_code',
     });
 
+    if (settings.clientSecret) {
+      params.set('client_secret', settings.clientSecret);
+    }
+
+    if (codeVerifier) {
+      params.set('code_verifier', codeVerifier);
+    }
+
     try {
-      const response = await axios.post<OAuth2TokenResponse>('https://oauth2.googleapis.com/token', params, {
-        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      const response = await axios.post<OAuth2TokenResponse>(settings.tokenUrl, params, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...adapter.tokenRequestHeaders },
       });
 
-      return response.data;
+      return adapter.parseTokenResponse ? adapter.parseTokenResponse(response.data) : response.data;
     } catch (error) {
-      this.logger.error('Failed to exchange Google code', error);
+      this.logger.error(`Failed to exchange ${settings.name} code`, error);
       throw new UnprocessableEntityException('Failed to exchange authorization code');
     }
   }
 
-  /**
-   * Decode JWT without signature verification
-   *
-   * Note: Does not verify signature. JWT came from Google's token endpoint over HTTPS,
-   * so signature verification will happen later in the ZK circuit.
-   *
-   * @param idToken - The JWT id_token from Google
-   * @returns The decoded JWT payload
-   * @throws UnprocessableEntityException if JWT format is invalid
-   */
-  decodeJWT(idToken: string): JWTPayload {
-    const parts = idToken.split('.');
-
-    if (parts.length !== 3) {
-      throw new UnprocessableEntityException('Invalid JWT format');
-    }
-
-    const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
-
-    return payload;
-  }
-
   /**
    * Create or update user record
    *
-   * Uses 'sub' as unique identifier. Updates tokens and profile if user exists,
-   * creates new record otherwise.
+   * Users are identified by issuer, audience and subject, the same identity the salt is
+   * derived from: the same 'sub' at another provider or client is another user. Updates
+   * tokens and profile if user exists, creates new record otherwise.
    *
-   * @param sub - OAuth subject (unique user identifier)
+   * @param sub - OAuth subject (unique per issuer)
    * @param email - User's email address
    * @param name - User's display name
    * @param picture - User's profile picture URL
-   * @param provider - OAuth provider (currently only 'google' supported)
+   * @param provider - OAuth provider the user signed in with
+   * @param iss - id_token issuer
    * @param aud - OAuth audience (client ID)
-   * @param tokenData - Complete OAuth token response
+   * @param tokenData - OAuth token response, or only the id_token for implicit logins
    * @returns The created or updated user record
    */
   async upsertUser(
@@ -174,12 +339,13 @@ export class AuthService {
     email: string | undefined,
     name: string | undefined,
     picture: string | undefined,
-    provider: 'google',
+    provider: Provider,
+    iss: string,
     aud: string,
-    tokenData: OAuth2TokenResponse,
+    tokenData: UserTokens,
   ) {
-    const existingUser = await this.prisma.user.findFirst({
-      where: { sub },
+    const existingUser = await this.prisma.user.findUnique({
+      where: { iss_aud_sub: { iss, aud, sub } },
     });
 
     // Calculate token expiration time (current time + expires_in seconds)
@@ -193,8 +359,8 @@ export class AuthService {
           email: email || null,
           name,
           picture,
-          tokenType: tokenData.token_type,
-          accessToken: tokenData.access_token,
+          tokenType: tokenData.token_type || null,
+          accessToken: tokenData.access_token || null,
           refreshToken: tokenData.refresh_token || null,
           idToken: tokenData.id_token || null,
           expiresIn: tokenData.expires_in,
@@ -206,13 +372,15 @@ export class AuthService {
       // Create new user: first time login
       return await this.prisma.user.create({
         data: {
+          iss,
+          aud,
           sub,
           email: email || null,
           name: name || sub, // Fallback to sub if name not provided
           picture,
-          provider: provider === 'google' ? 'google' : 'google',
-          tokenType: tokenData.token_type,
-          accessToken: tokenData.access_token,
+          provider,
+          tokenType: tokenData.token_type || null,
+          accessToken: tokenData.access_token || null,
           refreshToken: tokenData.refresh_token || null,
           idToken: tokenData.id_token || null,
           expiresIn: tokenData.expires_in,
@@ -223,63 +391,91 @@ export class AuthService {
   }
 
   /**
-   * Generate salt for zkLogin address derivation
+   * Enqueue proof generation for a verified id_token
    *
-   * Environment-dependent behavior:
-   * - Production: SALT_SERVER_URL required, calls external salt server
-   * - Development: SALT_SERVER_URL optional, generates random salt if not configured
+   * Generates the salt and the ZK inputs and stores the proof with 'waiting' status
+   * for worker processing. Failures are recorded as a 'failed' proof with an error code
+   * instead of thrown, so the client learns about them when polling.
    *
-   * @param jwt - The id_token JWT from OAuth provider
-   * @returns Base64-encoded salt value
-   * @throws Error if salt server not configured in production or returns error
+   * @param idToken - The verified id_token
+   * @param nonce - The nonce record the id_token is bound to
+   * @param provider - Name of the OAuth provider that issued the id_token
+   * @param verified - The verified claims and the provider key that signed the id_token
+   * @returns The status of the stored proof
+   * @throws ConflictException if a proof was already requested for this nonce
    */
-  async generateSalt(jwt: string): Promise<string> {
-    const saltServerUrl = this.config.get('salt.serverUrl', { infer: true });
-    const nodeEnv = this.config.get('nodeEnv', { infer: true });
+  async enqueueProof(
+    idToken: string,
+    nonce: Nonce,
+    provider: string,
+    { payload, key }: VerifiedIdToken,
+  ): Promise<'waiting' | 'failed'> {
+    const existingProof = await this.prisma.proof.findUnique({
+      where: { nonce: nonce.nonce },
+      select: { id: true },
+    });
 
-    // Strict production requirement
-    if (nodeEnv === 'production' && !saltServerUrl) {
-      throw new Error('Salt server URL must be configured in production environment');
+    if (existingProof) {
+      throw new ConflictException('A proof was already requested for this nonce');
     }
 
-    // Development fallback: random salt
-    if (!saltServerUrl) {
-      if (nodeEnv !== 'development') {
-        throw new Error('Salt server URL is required in non-development environments');
-      }
-
-      // Generate cryptographically weak random salt (dev only!)
-      const randomBytes = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-      const salt = Buffer.from(randomBytes).toString('base64');
-
-      this.logger.warn('Using randomly generated salt in development mode');
+    try {
+      // Get salt from the configured salt provider
+      this.logger.debug('Getting salt');
+      const salt = await this.salt.getSalt({
+        jwt: idToken,
+        provider,
+        iss: payload.iss!,
+        aud: Array.isArray(payload.aud) ? payload.aud[0] : payload.aud!,
+        sub: payload.sub!,
+      });
 
-      return salt;
-    }
+      // Generate ZK proof inputs from JWT + salt + nonce
+      const { generateZKInput } = await import('@kzero/common');
+
+      const { fields, inputs } = await generateZKInput({
+        jwt: idToken,
+        salt,
+        epoch: nonce.maxEpoch.toString(),
+        keyStr: nonce.ephemeralPublicKey as `0x${string}`,
+        randomness: nonce.randomness,
+        // The key the token was verified against, from the cached provider JWKS
+        certs: [key],
+      });
 
-    // Production: call external salt server
-    try {
-      const response = await axios.post(
-        `${saltServerUrl}/get_salt`,
-        {
-          message: jwt,
-          provider: 'google',
-        },
-        {
-          headers: { 'Content-Type': 'application/json' },
+      // Store proof inputs with 'waiting' status for worker processing
+      await this.prisma.proof.create({
+        data: {
+          nonce: nonce.nonce,
+          jwt: idToken,
+          inputs: inputs as unknown as Prisma.InputJsonValue,
+          fields: fields as unknown as Prisma.InputJsonValue,
+          proof: Prisma.JsonNull,
+          public: Prisma.JsonNull,
+          status: 'waiting',
         },
-      );
+      });
 
-      const { status, salt, error } = response.data;
+      return 'waiting';
+    } catch (error) {
+      // Create failed proof record for error tracking
+      this.logger.error('Failed to create proof', error);
 
-      if (status === 'success' && salt) {
-        return salt;
-      }
+      await this.prisma.proof.create({
+        data: {
+          nonce: nonce.nonce,
+          jwt: idToken,
+          inputs: {} as Prisma.InputJsonValue,
+          fields: Prisma.JsonNull,
+          proof: Prisma.JsonNull,
+          public: Prisma.JsonNull,
+          status: 'failed',
+          // Salt failures carry their own code, anything else failed while building the circuit inputs
+          errorCode: error instanceof SaltError ? error.code : 'ZK_INPUT_FAILED',
+        },
+      });
 
-      throw new Error(error || 'Unknown error from salt server');
-    } catch (error) {
-      this.logger.error('Failed to generate salt', error);
-      throw error;
+      return 'failed';
     }
   }
 }
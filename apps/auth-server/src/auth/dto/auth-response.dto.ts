@@ -5,10 +5,19 @@ import { ApiProperty } from '@nestjs/swagger';
 
 export class AuthUrlResponseDto {
   @ApiProperty({
-    description: 'Google OAuth authorization URL for user to redirect to',
+    description: 'OAuth provider authorization URL for user to redirect to',
     example:
       'https://accounts.google.com/o/oauth2/v2/auth?client_id=...&redirect_uri=...&response_type=code&scope=openid+email+profile&state=abc123...',
     type: String,
   })
   url!: string;
 }
+
+export class IdTokenLoginResponseDto {
+  @ApiProperty({
+    description: 'Status of the enqueued proof, poll GET /proof for the result',
+    enum: ['waiting', 'failed'],
+    example: 'waiting',
+  })
+  status!: 'waiting' | 'failed';
+}
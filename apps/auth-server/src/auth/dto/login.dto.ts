@@ -2,8 +2,15 @@
 // SPDX-License-Identifier: GNU General Public License v3.0
 
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString, Length } from 'class-validator';
+import { Type } from 'class-transformer';
+import { IsInt, IsNotEmpty, IsOptional, IsString, Length, Matches, Min } from 'class-validator';
 
+/**
+ * OAuth initiation query parameters
+ *
+ * Wallets that computed their zkLogin nonce client-side pass `max_epoch` and `randomness`
+ * (and optionally the `nonce` to check); otherwise the server chooses them.
+ */
 export class InitiateOAuthDto {
   @ApiProperty({
     description: 'Ephemeral public key in hexadecimal format (must start with 0x)',
@@ -15,6 +22,69 @@ export class InitiateOAuthDto {
   @IsNotEmpty()
   @Length(66, 66) // 0x + 64 hex characters
   ephemeral_public_key!: string;
+
+  @ApiProperty({
+    description: 'maxEpoch committed in the nonce, within the server window (default: the largest allowed)',
+    example: 514,
+    type: Number,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  max_epoch?: number;
+
+  @ApiProperty({
+    description: 'Decimal randomness committed in the nonce (default: generated by the server)',
+    example: '157405298473826934937318046374834217382',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{1,77}$/, { message: 'randomness must be a decimal number' })
+  randomness?: string;
+
+  @ApiProperty({
+    description: 'Client-computed nonce, checked against the nonce recomputed from the key, max_epoch and randomness',
+    example: 'tVEDKlMkJkKh-sb30yM5d7HysQg',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  nonce?: string;
+}
+
+/**
+ * Implicit id_token login body
+ *
+ * Used when the id_token was obtained in the browser or a native SDK
+ * (e.g. Google One Tap) instead of through the authorization code flow.
+ */
+export class IdTokenLoginDto {
+  @ApiProperty({
+    description: 'OpenID Connect id_token whose nonce claim was issued by GET /auth/:provider',
+    example: 'eyJhbGciOiJSUzI1NiIsImtpZCI6Ii4uLiJ9...',
+    type: String,
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  id_token!: string;
+
+  @ApiProperty({
+    description: 'Ephemeral public key in hexadecimal format (must start with 0x)',
+    example: '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+    type: String,
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(66, 66) // 0x + 64 hex characters
+  ephemeral_public_key!: string;
 }
 
 /**
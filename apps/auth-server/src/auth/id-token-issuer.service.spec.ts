@@ -0,0 +1,116 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { ConfigService } from '@nestjs/config';
+import type { AuthServerConfig } from '../config/config.interface.js';
+import type { OAuthProviderAdapter } from './providers/oauth-provider.interface.js';
+import type { OidcDiscoveryService } from './providers/oidc-discovery.service.js';
+
+import { NotFoundException, UnprocessableEntityException } from '@nestjs/common';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { githubProvider } from './providers/github.provider.js';
+import { OAuthProviderRegistry } from './providers/oauth-provider.registry.js';
+import { IdTokenIssuerService } from './id-token-issuer.service.js';
+import { IdTokenVerifierService } from './id-token-verifier.service.js';
+import { JwksService } from './jwks.service.js';
+
+const ISSUER = 'http://localhost:3000/auth/github';
+const NONCE = 'login-nonce';
+const TOKENS = { access_token: 'gho_token', token_type: 'bearer', expires_in: undefined as unknown as number };
+const USER = { sub: '583231', email: 'octocat@github.com', name: 'The Octocat', picture: 'https://avatar/octocat' };
+
+const pem = (modulusLength: number) =>
+  generateKeyPairSync('rsa', { modulusLength }).privateKey.export({ format: 'pem', type: 'pkcs8' }) as string;
+
+describe('IdTokenIssuerService', () => {
+  let dir: string;
+  let keyFile: string;
+  let registry: (signingKeyFile?: string) => OAuthProviderRegistry;
+  let issuer: IdTokenIssuerService;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'issuer-'));
+    keyFile = join(dir, 'github.pem');
+    await writeFile(keyFile, pem(2048));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    registry = (signingKeyFile = keyFile) =>
+      new OAuthProviderRegistry(
+        {
+          get: () => ({
+            google: { clientId: 'google-client', redirectUri: 'http://localhost:3000/auth/google/callback' },
+            github: {
+              clientId: 'github-client',
+              redirectUri: `${ISSUER}/callback`,
+              issuer: ISSUER,
+              signingKeyFile,
+            },
+          }),
+        } as unknown as ConfigService<AuthServerConfig, true>,
+        {} as OidcDiscoveryService,
+      );
+
+    issuer = new IdTokenIssuerService(registry());
+    vi.spyOn(githubProvider as Required<OAuthProviderAdapter>, 'fetchUser').mockResolvedValue(USER);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('issues an id_token that verifies against the published keys', async () => {
+    const providers = registry();
+    const verifier = new IdTokenVerifierService(providers, new JwksService(issuer), {
+      get: () => 60,
+    } as unknown as ConfigService<AuthServerConfig, true>);
+
+    const tokens = await issuer.issue('github', TOKENS, NONCE);
+    const { payload, key } = await verifier.verify('github', tokens.id_token!, NONCE);
+
+    expect(githubProvider.fetchUser).toHaveBeenCalledWith('gho_token');
+    expect(payload).toMatchObject({ iss: ISSUER, aud: 'github-client', nonce: NONCE, ...USER });
+    expect(payload.exp! - payload.iat!).toBe(600);
+    expect(key).toEqual(issuer.getPublicKeys('github')[0]);
+    expect(tokens).toMatchObject({ access_token: 'gho_token', expires_in: 600 });
+  });
+
+  it('publishes an RS256 key identified by its thumbprint at {issuer}/jwks', async () => {
+    const [key] = issuer.getPublicKeys('github');
+
+    expect(key).toMatchObject({ kty: 'RSA', alg: 'RS256', use: 'sig', e: 'AQAB' });
+    expect(key.kid).toMatch(/^[\w-]{43}$/);
+    expect((await registry().resolve('github')).settings.jwksUrl).toBe(`${ISSUER}/jwks`);
+  });
+
+  it('only issues id_tokens for providers without OpenID Connect', async () => {
+    expect(issuer.issues('github')).toBe(true);
+    expect(issuer.issues('google')).toBe(false);
+    expect(() => issuer.getPublicKeys('google')).toThrow(NotFoundException);
+    await expect(issuer.issue('google', TOKENS, NONCE)).rejects.toThrow(NotFoundException);
+  });
+
+  it('rejects the login when the provider rejects the access token', async () => {
+    vi.mocked(githubProvider.fetchUser!).mockRejectedValueOnce(new Error('Bad credentials'));
+
+    await expect(issuer.issue('github', TOKENS, NONCE)).rejects.toThrow(UnprocessableEntityException);
+  });
+
+  it('requires an RSA 2048 signing key', async () => {
+    const smallKeyFile = join(dir, 'small.pem');
+
+    await writeFile(smallKeyFile, pem(1024));
+
+    expect(() => new IdTokenIssuerService(registry(smallKeyFile))).toThrow('must be an RSA 2048 key');
+    expect(() => registry('')).toThrow("missing required setting 'signingKeyFile'");
+  });
+});
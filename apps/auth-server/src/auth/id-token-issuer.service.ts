@@ -0,0 +1,148 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { JWTPublicKeyData } from '@kzero/common';
+import type { OAuth2TokenResponse } from './providers/oauth-provider.interface.js';
+
+import { Injectable, Logger, NotFoundException, UnprocessableEntityException } from '@nestjs/common';
+import { createSigner } from 'fast-jwt';
+import { createHash, createPrivateKey, createPublicKey } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+import { OAuthProviderRegistry } from './providers/oauth-provider.registry.js';
+
+/**
+ * Signing algorithm and RSA modulus size supported by the zkLogin circuit
+ */
+const SIGNING_ALGORITHM = 'RS256';
+const MODULUS_LENGTH = 2048;
+
+/**
+ * Lifetime of issued id_tokens (10 minutes), they are only used to request the proof
+ */
+const ID_TOKEN_TTL = 600000;
+
+interface SigningKey {
+  pem: string;
+  publicKey: JWTPublicKeyData;
+}
+
+/**
+ * Load an RSA signing key and derive its public JWK
+ *
+ * The `kid` is the RFC 7638 thumbprint, so it changes whenever the key is rotated.
+ *
+ * @param file - PEM file of the private key
+ * @throws Error if the key is not an RSA key of the size the circuit supports
+ */
+function loadSigningKey(file: string): SigningKey {
+  const pem = readFileSync(file, 'utf-8');
+  const privateKey = createPrivateKey(pem);
+
+  if (privateKey.asymmetricKeyType !== 'rsa' || privateKey.asymmetricKeyDetails?.modulusLength !== MODULUS_LENGTH) {
+    throw new Error(`Signing key ${file} must be an RSA ${MODULUS_LENGTH} key`);
+  }
+
+  const { e, n } = createPublicKey(privateKey).export({ format: 'jwk' }) as { e: string; n: string };
+  const kid = createHash('sha256')
+    .update(JSON.stringify({ e, kty: 'RSA', n }))
+    .digest('base64url');
+
+  return { pem, publicKey: { kty: 'RSA', alg: SIGNING_ALGORITHM, kid, use: 'sig', e, n } };
+}
+
+/**
+ * ID Token Issuer Service
+ *
+ * Issues the id_tokens of providers without OpenID Connect (GitHub): after the code exchange
+ * the provider user is read with the access token and signed into an id_token bound to the
+ * login nonce. The token then goes through the same verification, salt and proof path as the
+ * id_token of any OpenID Connect provider.
+ */
+@Injectable()
+export class IdTokenIssuerService {
+  private readonly logger = new Logger(IdTokenIssuerService.name);
+  private readonly keys = new Map<string, SigningKey>();
+
+  constructor(private readonly providers: OAuthProviderRegistry) {
+    for (const name of providers.names()) {
+      const { adapter, settings } = providers.get(name);
+
+      if (adapter.fetchUser) {
+        this.keys.set(name, loadSigningKey(settings.signingKeyFile!));
+        this.logger.log(`Issuing id_tokens for OAuth provider: ${name} (${settings.issuer})`);
+      }
+    }
+  }
+
+  /**
+   * Check whether the auth-server issues the id_tokens of a provider
+   *
+   * @param providerName - Registered provider name
+   */
+  issues(providerName: string): boolean {
+    return this.keys.has(providerName);
+  }
+
+  /**
+   * Get the public keys id_tokens of a provider are signed with
+   *
+   * @param providerName - Registered provider name
+   * @returns The keys, published as the provider JWKS
+   * @throws NotFoundException if the auth-server does not issue id_tokens for this provider
+   */
+  getPublicKeys(providerName: string): JWTPublicKeyData[] {
+    return [this.getSigningKey(providerName).publicKey];
+  }
+
+  /**
+   * Issue the id_token of a login from the provider user of its access token
+   *
+   * @param providerName - Registered provider name
+   * @param tokens - Token endpoint response of the code exchange
+   * @param nonce - The nonce stored for this login (`Nonce.nonce`)
+   * @returns The token response completed with the issued id_token
+   * @throws NotFoundException if the auth-server does not issue id_tokens for this provider
+   * @throws UnprocessableEntityException if the provider rejected the access token
+   */
+  async issue(providerName: string, tokens: OAuth2TokenResponse, nonce: string): Promise<OAuth2TokenResponse> {
+    const { pem, publicKey } = this.getSigningKey(providerName);
+    const { adapter, settings } = this.providers.get(providerName);
+    let user;
+
+    try {
+      user = await adapter.fetchUser!(tokens.access_token);
+    } catch (error) {
+      this.logger.error(`Failed to fetch ${providerName} user`, error);
+      throw new UnprocessableEntityException('Failed to fetch user from provider');
+    }
+
+    const idToken = createSigner({
+      key: pem,
+      algorithm: SIGNING_ALGORITHM,
+      kid: publicKey.kid,
+      expiresIn: ID_TOKEN_TTL,
+    })({
+      iss: settings.issuer,
+      aud: settings.clientId,
+      sub: user.sub,
+      nonce,
+      email: user.email,
+      name: user.name,
+      picture: user.picture,
+    });
+
+    // Providers like GitHub hand out access tokens without expiry
+    return { ...tokens, id_token: idToken, expires_in: tokens.expires_in ?? ID_TOKEN_TTL / 1000 };
+  }
+
+  private getSigningKey(providerName: string): SigningKey {
+    const key = this.keys.get(providerName);
+
+    if (!key) {
+      throw new NotFoundException(`OAuth provider '${providerName}' has no id_tokens issued by this server`);
+    }
+
+    return key;
+  }
+}
@@ -0,0 +1,158 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { ConfigService } from '@nestjs/config';
+import type { AuthServerConfig } from '../config/config.interface.js';
+import type { IdTokenError } from './auth.constants.js';
+import type { JwksService } from './jwks.service.js';
+import type { OAuthProviderRegistry } from './providers/oauth-provider.registry.js';
+
+import { UnprocessableEntityException } from '@nestjs/common';
+import { createSigner } from 'fast-jwt';
+import { generateKeyPairSync } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { JwksKeyNotFoundError } from '@kzero/common';
+
+import { IdTokenVerifierService } from './id-token-verifier.service.js';
+
+const ISSUER = 'https://accounts.example.com';
+const CLIENT_ID = 'client-id';
+const NONCE = 'login-nonce';
+const SKEW = 60;
+const NOW = 1735689600;
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const { privateKey: otherPrivateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwk = publicKey.export({ format: 'jwk' });
+const PUBLIC_KEY = { kty: 'RSA', alg: 'RS256', kid: 'key-1', use: 'sig', n: jwk.n as string, e: jwk.e as string };
+
+const claims = (overrides: Record<string, unknown> = {}) => ({
+  iss: ISSUER,
+  aud: CLIENT_ID,
+  sub: 'user-sub',
+  nonce: NONCE,
+  iat: NOW - 10,
+  exp: NOW + 3600,
+  ...overrides,
+});
+
+// The signer only adds iat when the claims have none
+const sign = (payload: Record<string, unknown>, { kid = 'key-1', key = privateKey } = {}) =>
+  createSigner({
+    key: key.export({ format: 'pem', type: 'pkcs8' }) as string,
+    algorithm: 'RS256',
+    kid,
+    noTimestamp: payload.iat === undefined,
+  })(payload);
+
+const base64url = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('IdTokenVerifierService', () => {
+  let verifier: IdTokenVerifierService;
+
+  const expectRejected = async (token: string, error: IdTokenError) => {
+    const rejection = await verifier.verify('example', token, NONCE).catch((thrown: unknown) => thrown);
+
+    expect(rejection).toBeInstanceOf(UnprocessableEntityException);
+    expect((rejection as UnprocessableEntityException).getResponse()).toMatchObject({ error });
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW * 1000);
+
+    const providers = {
+      resolve: () => Promise.resolve({ settings: { clientId: CLIENT_ID, jwksUrl: `${ISSUER}/jwks` } }),
+      isIssuer: (_name: string, iss: unknown) => iss === ISSUER,
+    };
+    const jwks = {
+      getKey: (_settings: unknown, kid: string | undefined) =>
+        kid === PUBLIC_KEY.kid ? Promise.resolve(PUBLIC_KEY) : Promise.reject(new JwksKeyNotFoundError(kid)),
+    };
+
+    verifier = new IdTokenVerifierService(
+      providers as unknown as OAuthProviderRegistry,
+      jwks as unknown as JwksService,
+      { get: () => SKEW } as unknown as ConfigService<AuthServerConfig, true>,
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the payload and signing key of a valid token', async () => {
+    await expect(verifier.verify('example', sign(claims()), NONCE)).resolves.toEqual({
+      payload: claims(),
+      key: PUBLIC_KEY,
+    });
+  });
+
+  it('rejects a token that cannot be decoded', async () => {
+    await expectRejected('not-a-jwt', 'MALFORMED');
+  });
+
+  it('rejects a token not signed with RS256', async () => {
+    await expectRejected(
+      `${base64url({ alg: 'HS256', kid: 'key-1' })}.${base64url(claims())}.sig`,
+      'UNSUPPORTED_ALGORITHM',
+    );
+  });
+
+  it('rejects a token signed with an unknown key', async () => {
+    await expectRejected(sign(claims(), { kid: 'rotated-key' }), 'KEY_NOT_FOUND');
+  });
+
+  it('rejects a token whose signature does not match the key', async () => {
+    await expectRejected(sign(claims(), { key: otherPrivateKey }), 'INVALID_SIGNATURE');
+  });
+
+  it('rejects a token of another issuer', async () => {
+    await expectRejected(sign(claims({ iss: 'https://evil.example.com' })), 'ISSUER_MISMATCH');
+  });
+
+  it('rejects a token of another audience', async () => {
+    await expectRejected(sign(claims({ aud: 'other-client' })), 'AUDIENCE_MISMATCH');
+  });
+
+  it('accepts a token listing the client among several audiences', async () => {
+    await expect(
+      verifier.verify('example', sign(claims({ aud: ['other-client', CLIENT_ID] })), NONCE),
+    ).resolves.toBeDefined();
+  });
+
+  it('rejects an expired token', async () => {
+    await expectRejected(sign(claims({ exp: NOW - SKEW - 1 })), 'EXPIRED');
+  });
+
+  it('rejects a token without iat or issued in the future', async () => {
+    await expectRejected(sign(claims({ iat: undefined })), 'INVALID_ISSUED_AT');
+    await expectRejected(sign(claims({ iat: NOW + SKEW + 1 })), 'INVALID_ISSUED_AT');
+  });
+
+  it('rejects a token that is not valid yet', async () => {
+    await expectRejected(sign(claims({ nbf: NOW + SKEW + 1 })), 'NOT_YET_VALID');
+  });
+
+  it('rejects a token issued for another login', async () => {
+    await expectRejected(sign(claims({ nonce: 'other-nonce' })), 'NONCE_MISMATCH');
+  });
+
+  it('rejects a token without sub', async () => {
+    await expectRejected(sign(claims({ sub: undefined })), 'MISSING_SUB');
+  });
+
+  it('tolerates clock skew up to the configured seconds', async () => {
+    const token = sign(claims({ exp: NOW - SKEW, iat: NOW + SKEW, nbf: NOW + SKEW }));
+
+    await expect(verifier.verify('example', token, NONCE)).resolves.toBeDefined();
+
+    vi.setSystemTime((NOW + 1) * 1000);
+    await expectRejected(token, 'EXPIRED');
+
+    vi.setSystemTime((NOW - 1) * 1000);
+    await expectRejected(sign(claims({ exp: NOW + 3600, iat: NOW + SKEW })), 'INVALID_ISSUED_AT');
+    await expectRejected(sign(claims({ exp: NOW + 3600, nbf: NOW + SKEW })), 'NOT_YET_VALID');
+  });
+});
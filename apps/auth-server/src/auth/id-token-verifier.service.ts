@@ -0,0 +1,176 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { JWTPayload, JWTPublicKeyData } from '@kzero/common';
+import type { AuthServerConfig } from '../config/config.interface.js';
+import type { OAuthProviderSettings } from './providers/oauth-provider.interface.js';
+
+import { Injectable, Logger, UnprocessableEntityException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createDecoder, createVerifier, TokenError } from 'fast-jwt';
+import { createPublicKey } from 'node:crypto';
+
+import { JwksKeyNotFoundError } from '@kzero/common';
+
+import { OAuthProviderRegistry } from './providers/oauth-provider.registry.js';
+import { ID_TOKEN_ERRORS, type IdTokenError } from './auth.constants.js';
+import { JwksService } from './jwks.service.js';
+
+/**
+ * Signing algorithm supported by the zkLogin circuit
+ */
+const SUPPORTED_ALGORITHM = 'RS256';
+
+interface DecodedIdToken {
+  header: { alg?: string; kid?: string };
+  payload: JWTPayload;
+}
+
+/**
+ * A verified id_token
+ */
+export interface VerifiedIdToken {
+  payload: JWTPayload;
+
+  /**
+   * The provider key that signed the token
+   */
+  key: JWTPublicKeyData;
+}
+
+/**
+ * ID Token Verifier Service
+ *
+ * Fully verifies an OpenID Connect id_token before any proof work is scheduled:
+ * JWS signature against the provider JWKS, issuer, audience, expiry, issued-at and nonce.
+ * Each failure is reported as a distinct 422 error.
+ */
+@Injectable()
+export class IdTokenVerifierService {
+  private readonly logger = new Logger(IdTokenVerifierService.name);
+  private readonly decoder = createDecoder({ complete: true });
+
+  constructor(
+    private readonly providers: OAuthProviderRegistry,
+    private readonly jwks: JwksService,
+    private readonly config: ConfigService<AuthServerConfig, true>,
+  ) {}
+
+  /**
+   * Verify an id_token issued by a registered provider
+   *
+   * @param providerName - Registered provider name
+   * @param idToken - The id_token JWT
+   * @param expectedNonce - The nonce stored for this login (`Nonce.nonce`)
+   * @returns The verified JWT payload and the key that signed it
+   * @throws UnprocessableEntityException with a distinct error code for each failed check
+   */
+  async verify(providerName: string, idToken: string, expectedNonce: string): Promise<VerifiedIdToken> {
+    const { settings } = await this.providers.resolve(providerName);
+    const { header, payload } = this.decode(idToken);
+
+    if (header.alg !== SUPPORTED_ALGORITHM) {
+      this.reject('UNSUPPORTED_ALGORITHM', `alg=${header.alg}`);
+    }
+
+    // Signature
+    const key = await this.getSigningKey(settings, header.kid);
+
+    try {
+      createVerifier({
+        key: createPublicKey({ key: { kty: key.kty, n: key.n, e: key.e }, format: 'jwk' }).export({
+          format: 'pem',
+          type: 'spki',
+        }),
+        algorithms: [SUPPORTED_ALGORITHM],
+        ignoreExpiration: true,
+        ignoreNotBefore: true,
+      })(idToken);
+    } catch (error) {
+      this.reject('INVALID_SIGNATURE', error instanceof TokenError ? error.code : undefined);
+    }
+
+    // Issuer and audience
+    if (!this.providers.isIssuer(providerName, payload.iss)) {
+      this.reject('ISSUER_MISMATCH', `iss=${payload.iss}`);
+    }
+
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+
+    if (!audiences.includes(settings.clientId)) {
+      this.reject('AUDIENCE_MISMATCH', `aud=${payload.aud}`);
+    }
+
+    // Validity window
+    const now = Math.floor(Date.now() / 1000);
+    const skew = this.config.get('jwt.clockSkewSeconds', { infer: true });
+
+    if (typeof payload.exp !== 'number' || payload.exp + skew < now) {
+      this.reject('EXPIRED', `exp=${payload.exp}`);
+    }
+
+    if (typeof payload.iat !== 'number' || payload.iat - skew > now) {
+      this.reject('INVALID_ISSUED_AT', `iat=${payload.iat}`);
+    }
+
+    if (typeof payload.nbf === 'number' && payload.nbf - skew > now) {
+      this.reject('NOT_YET_VALID', `nbf=${payload.nbf}`);
+    }
+
+    // Binding to the login session
+    if (payload.nonce !== expectedNonce) {
+      this.reject('NONCE_MISMATCH');
+    }
+
+    if (!payload.sub) {
+      this.reject('MISSING_SUB');
+    }
+
+    return { payload, key };
+  }
+
+  /**
+   * Read the claims of an id_token without verifying it
+   *
+   * Only used to route the token (provider by `iss`, login by `nonce`) before {@link verify}.
+   *
+   * @param idToken - The id_token JWT
+   * @returns The unverified JWT payload
+   * @throws UnprocessableEntityException if the token cannot be decoded
+   */
+  decodeUnverified(idToken: string): JWTPayload {
+    return this.decode(idToken).payload;
+  }
+
+  /**
+   * Decode the JWT header and payload without verification
+   */
+  private decode(idToken: string): DecodedIdToken {
+    try {
+      return this.decoder(idToken) as DecodedIdToken;
+    } catch {
+      this.reject('MALFORMED');
+    }
+  }
+
+  /**
+   * Find the JWKS key that signed the token
+   */
+  private async getSigningKey(settings: OAuthProviderSettings, kid: string | undefined): Promise<JWTPublicKeyData> {
+    try {
+      return await this.jwks.getKey(settings, kid);
+    } catch (error) {
+      if (error instanceof JwksKeyNotFoundError) {
+        this.reject('KEY_NOT_FOUND', `kid=${kid}`);
+      }
+
+      this.logger.error(`Failed to load JWKS from ${settings.jwksUrl}`, error);
+      this.reject('KEY_NOT_FOUND', 'JWKS unavailable');
+    }
+  }
+
+  private reject(error: IdTokenError, detail?: string): never {
+    this.logger.warn(`id_token rejected: ${error}${detail ? ` (${detail})` : ''}`);
+    throw new UnprocessableEntityException(ID_TOKEN_ERRORS[error], error);
+  }
+}
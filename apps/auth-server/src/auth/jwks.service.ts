@@ -0,0 +1,51 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { JWTPublicKeyData } from '@kzero/common';
+import type { OAuthProviderSettings } from './providers/oauth-provider.interface.js';
+
+import { Injectable } from '@nestjs/common';
+
+import { JwksCache, JwksKeyNotFoundError } from '@kzero/common';
+
+import { IdTokenIssuerService } from './id-token-issuer.service.js';
+
+/**
+ * JWKS Service
+ *
+ * Holds one {@link JwksCache} per JWKS URL so provider keys are fetched once
+ * per Cache-Control max-age instead of on every login. Keys of id_tokens the
+ * auth-server issues itself are served without a request.
+ */
+@Injectable()
+export class JwksService {
+  private readonly caches = new Map<string, JwksCache>();
+
+  constructor(private readonly issuer: IdTokenIssuerService) {}
+
+  /**
+   * Get the provider key that signed a token
+   *
+   * @param settings - Resolved provider settings
+   * @param kid - Key ID from the JWT header
+   * @returns The matching key
+   * @throws JwksKeyNotFoundError if the provider has no key with this kid
+   * @throws Error if the JWKS cannot be loaded
+   */
+  getKey(settings: OAuthProviderSettings, kid: string | undefined): Promise<JWTPublicKeyData> {
+    if (this.issuer.issues(settings.name)) {
+      const key = this.issuer.getPublicKeys(settings.name).find((candidate) => candidate.kid === kid);
+
+      return key ? Promise.resolve(key) : Promise.reject(new JwksKeyNotFoundError(kid));
+    }
+
+    let cache = this.caches.get(settings.jwksUrl);
+
+    if (!cache) {
+      cache = new JwksCache({ url: settings.jwksUrl, seedFile: settings.jwksFile });
+      this.caches.set(settings.jwksUrl, cache);
+    }
+
+    return cache.getKey(kid);
+  }
+}
@@ -0,0 +1,34 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+
+import { AuthService } from './auth.service.js';
+
+/**
+ * Nonce Cleanup Service
+ *
+ * Purges expired, unused nonces every 10 minutes so abandoned logins don't accumulate.
+ */
+@Injectable()
+export class NonceCleanupService {
+  private readonly logger = new Logger(NonceCleanupService.name);
+
+  constructor(private readonly authService: AuthService) {}
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async handleNonceCleanup() {
+    try {
+      const count = await this.authService.purgeExpiredNonces();
+
+      if (count > 0) {
+        this.logger.log(`Purged ${count} expired nonces`);
+      } else {
+        this.logger.debug('No expired nonces to purge');
+      }
+    } catch (error) {
+      this.logger.error('Nonce cleanup failed', error);
+    }
+  }
+}
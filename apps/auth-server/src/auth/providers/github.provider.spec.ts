@@ -0,0 +1,83 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { MockInstance } from 'vitest';
+
+import axios from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { githubProvider } from './github.provider.js';
+
+const USER = { id: 583231, login: 'octocat', name: 'The Octocat', email: null, avatar_url: 'https://avatar/octocat' };
+
+describe('githubProvider', () => {
+  describe('parseTokenResponse', () => {
+    it('returns a successful token response', () => {
+      const tokens = { access_token: 'gho_token', token_type: 'bearer', scope: 'read:user,user:email' };
+
+      expect(githubProvider.parseTokenResponse!(tokens)).toEqual(tokens);
+    });
+
+    it('throws the error GitHub reports with a 200 status', () => {
+      expect(() =>
+        githubProvider.parseTokenResponse!({
+          error: 'bad_verification_code',
+          error_description: 'The code passed is incorrect or expired.',
+        }),
+      ).toThrow('bad_verification_code: The code passed is incorrect or expired.');
+    });
+  });
+
+  describe('fetchUser', () => {
+    let get: MockInstance<typeof axios.get>;
+
+    beforeEach(() => {
+      get = vi.spyOn(axios, 'get');
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('identifies the user by the numeric GitHub ID', async () => {
+      get.mockResolvedValueOnce({ data: { ...USER, email: 'octocat@github.com' } });
+
+      await expect(githubProvider.fetchUser!('gho_token')).resolves.toEqual({
+        sub: '583231',
+        email: 'octocat@github.com',
+        name: 'The Octocat',
+        picture: 'https://avatar/octocat',
+      });
+      expect(get).toHaveBeenCalledTimes(1);
+      expect(get).toHaveBeenCalledWith(
+        'https://api.github.com/user',
+        expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer gho_token' }) }),
+      );
+    });
+
+    it('uses the primary verified email when the profile email is private', async () => {
+      get.mockResolvedValueOnce({ data: USER }).mockResolvedValueOnce({
+        data: [
+          { email: 'unverified@example.com', primary: false, verified: false },
+          { email: 'octocat@github.com', primary: true, verified: true },
+        ],
+      });
+
+      await expect(githubProvider.fetchUser!('gho_token')).resolves.toMatchObject({ email: 'octocat@github.com' });
+      expect(get).toHaveBeenLastCalledWith('https://api.github.com/user/emails', expect.anything());
+    });
+
+    it('falls back to the login without a display name or verified email', async () => {
+      get
+        .mockResolvedValueOnce({ data: { ...USER, name: null } })
+        .mockResolvedValueOnce({ data: [{ email: 'octocat@github.com', primary: true, verified: false }] });
+
+      await expect(githubProvider.fetchUser!('gho_token')).resolves.toEqual({
+        sub: '583231',
+        email: undefined,
+        name: 'octocat',
+        picture: 'https://avatar/octocat',
+      });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { OAuth2TokenResponse, OAuthProviderAdapter, OAuthUser } from './oauth-provider.interface.js';
+
+import axios from 'axios';
+
+import { OAUTH_PROVIDERS } from '../auth.constants.js';
+
+/**
+ * GitHub REST API base URL
+ */
+const GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * GitHub API request timeout (10 seconds)
+ */
+const GITHUB_API_TIMEOUT = 10000;
+
+interface GithubTokenErrorResponse {
+  error: string;
+  error_description?: string;
+}
+
+interface GithubUser {
+  id: number;
+  login: string;
+  name: string | null;
+  email: string | null;
+  avatar_url: string;
+}
+
+interface GithubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+/**
+ * GitHub OAuth adapter
+ *
+ * GitHub is an OAuth2 provider without OpenID Connect: its token endpoint returns no
+ * id_token. The auth-server issues one from the GitHub user instead (see {@link OAuthProviderAdapter.fetchUser}),
+ * so `issuer` and `signingKeyFile` must be provided by config.
+ */
+export const githubProvider: OAuthProviderAdapter = {
+  name: OAUTH_PROVIDERS.GITHUB,
+  userProvider: 'github',
+  defaults: {
+    authorizeUrl: 'https://github.com/login/oauth/authorize',
+    tokenUrl: 'https://github.com/login/oauth/access_token',
+    scopes: ['read:user', 'user:email'],
+  },
+  // GitHub answers with form encoding unless JSON is requested
+  tokenRequestHeaders: { Accept: 'application/json' },
+  // GitHub reports token errors with a 200 status and an `error` field
+  parseTokenResponse(data: unknown): OAuth2TokenResponse {
+    const body = data as OAuth2TokenResponse | GithubTokenErrorResponse;
+
+    if ('error' in body) {
+      throw new Error(`${body.error}${body.error_description ? `: ${body.error_description}` : ''}`);
+    }
+
+    return body;
+  },
+  async fetchUser(accessToken: string): Promise<OAuthUser> {
+    const request = {
+      headers: { Accept: 'application/vnd.github+json', Authorization: `Bearer ${accessToken}` },
+      timeout: GITHUB_API_TIMEOUT,
+    };
+
+    const { data: user } = await axios.get<GithubUser>(`${GITHUB_API_URL}/user`, request);
+    let email = user.email;
+
+    // The profile email is null when the user keeps it private, user:email still grants the list
+    if (!email) {
+      const { data: emails } = await axios.get<GithubEmail[]>(`${GITHUB_API_URL}/user/emails`, request);
+
+      email = emails.find((candidate) => candidate.primary && candidate.verified)?.email ?? null;
+    }
+
+    return {
+      // The numeric ID survives username changes, the login does not
+      sub: String(user.id),
+      email: email ?? undefined,
+      name: user.name || user.login,
+      picture: user.avatar_url,
+    };
+  },
+};
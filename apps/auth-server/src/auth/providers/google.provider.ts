@@ -0,0 +1,22 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { OAuthProviderAdapter } from './oauth-provider.interface.js';
+
+import { OAUTH_PROVIDERS } from '../auth.constants.js';
+
+/**
+ * Google OpenID Connect adapter
+ *
+ * Endpoints are discovered from the issuer.
+ */
+export const googleProvider: OAuthProviderAdapter = {
+  name: OAUTH_PROVIDERS.GOOGLE,
+  userProvider: 'google',
+  defaults: {
+    issuer: 'https://accounts.google.com',
+    scopes: ['openid', 'email', 'profile'],
+  },
+  // Google may omit the scheme in the `iss` claim
+  issuerAliases: ['accounts.google.com'],
+};
@@ -0,0 +1,114 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { Provider } from '@kzero/database';
+
+/**
+ * OAuth2 token endpoint response
+ */
+export interface OAuth2TokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  id_token?: string;
+  refresh_token?: string;
+}
+
+/**
+ * User of an access token, for providers that issue no id_token
+ */
+export interface OAuthUser {
+  /**
+   * Stable user ID at the provider
+   */
+  sub: string;
+  email?: string;
+  name?: string;
+  picture?: string;
+}
+
+/**
+ * Endpoints and scopes of an OAuth provider
+ */
+export interface OAuthProviderEndpoints {
+  authorizeUrl: string;
+  tokenUrl: string;
+  jwksUrl: string;
+  issuer: string;
+  scopes: string[];
+}
+
+/**
+ * Fully resolved provider settings (adapter defaults, discovery and config merged)
+ */
+export interface OAuthProviderSettings extends OAuthProviderEndpoints {
+  name: string;
+  clientId: string;
+
+  /**
+   * Omitted for public clients, which rely on PKCE alone
+   */
+  clientSecret?: string;
+  redirectUri: string;
+
+  /**
+   * Local JWKS file used to seed the key cache
+   */
+  jwksFile?: string;
+
+  /**
+   * PEM file of the RSA key the auth-server signs id_tokens with, for adapters with `fetchUser`
+   */
+  signingKeyFile?: string;
+}
+
+/**
+ * Provider-specific behaviour
+ *
+ * Adapters hold the well-known settings of a provider and any deviation
+ * from the standard authorization code flow. Everything else is driven by config.
+ */
+export interface OAuthProviderAdapter {
+  /**
+   * Provider name, used as the `/auth/:provider` route segment
+   */
+  readonly name: string;
+
+  /**
+   * Provider value stored on the user record
+   */
+  readonly userProvider: Provider;
+
+  /**
+   * Default settings, each one can be overridden by config.
+   * Endpoints left out are discovered from the issuer.
+   */
+  readonly defaults: Partial<OAuthProviderEndpoints>;
+
+  /**
+   * Alternative `iss` values the provider puts in its id_tokens
+   */
+  readonly issuerAliases?: string[];
+
+  /**
+   * Extra headers sent to the token endpoint
+   */
+  readonly tokenRequestHeaders?: Record<string, string>;
+
+  /**
+   * Normalize the token endpoint response
+   *
+   * @throws Error if the provider reported an error in the response body
+   */
+  parseTokenResponse?(data: unknown): OAuth2TokenResponse;
+
+  /**
+   * Read the user of an access token, for providers that issue no id_token (e.g. GitHub)
+   *
+   * The auth-server then issues the id_token itself, with the provider's issuer setting
+   * as `iss`, signed with its `signingKeyFile` key and published at `/auth/:provider/jwks`.
+   *
+   * @throws Error if the provider rejected the access token
+   */
+  fetchUser?(accessToken: string): Promise<OAuthUser>;
+}
@@ -0,0 +1,177 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { AuthServerConfig } from '../../config/config.interface.js';
+import type {
+  OAuthProviderAdapter,
+  OAuthProviderEndpoints,
+  OAuthProviderSettings,
+} from './oauth-provider.interface.js';
+
+import { Injectable, Logger, NotFoundException, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { githubProvider } from './github.provider.js';
+import { googleProvider } from './google.provider.js';
+import { createOidcProvider } from './oidc.provider.js';
+import { OidcDiscoveryService } from './oidc-discovery.service.js';
+
+/**
+ * Adapters for providers with built-in knowledge; any other configured name is a generic OIDC provider
+ */
+const BUILTIN_ADAPTERS: Record<string, OAuthProviderAdapter> = {
+  [googleProvider.name]: googleProvider,
+  [githubProvider.name]: githubProvider,
+};
+
+const ENDPOINT_KEYS = ['authorizeUrl', 'tokenUrl', 'jwksUrl'] as const;
+
+type ProviderSettingsWithoutDiscovery = Omit<OAuthProviderSettings, keyof OAuthProviderEndpoints> &
+  Partial<OAuthProviderEndpoints>;
+
+export interface RegisteredProvider {
+  adapter: OAuthProviderAdapter;
+  settings: ProviderSettingsWithoutDiscovery;
+}
+
+export interface ResolvedProvider {
+  adapter: OAuthProviderAdapter;
+  settings: OAuthProviderSettings;
+}
+
+/**
+ * OAuth Provider Registry
+ *
+ * Registers every provider that has a config block, merging the adapter defaults
+ * with configured overrides. Endpoints that are neither configured nor known by the
+ * adapter are discovered from the provider's issuer. Unconfigured providers are not routable.
+ * Providers whose id_tokens the auth-server issues itself (GitHub) publish their JWKS at
+ * `{issuer}/jwks`, so their issuer is expected to be this server's `/auth/:provider` URL.
+ */
+@Injectable()
+export class OAuthProviderRegistry {
+  private readonly logger = new Logger(OAuthProviderRegistry.name);
+  private readonly providers = new Map<string, RegisteredProvider>();
+
+  constructor(
+    config: ConfigService<AuthServerConfig, true>,
+    private readonly discovery: OidcDiscoveryService,
+  ) {
+    const oauthConfig = config.get('oauth', { infer: true });
+
+    for (const [name, providerConfig] of Object.entries(oauthConfig)) {
+      const adapter = BUILTIN_ADAPTERS[name] ?? createOidcProvider(name);
+
+      const settings = {
+        ...adapter.defaults,
+        ...Object.fromEntries(Object.entries(providerConfig).filter(([, value]) => value !== undefined)),
+        name,
+      } as ProviderSettingsWithoutDiscovery;
+
+      if (!settings.issuer) {
+        throw new Error(`OAuth provider '${name}' is missing required setting 'issuer'`);
+      }
+
+      if (!settings.scopes?.length) {
+        throw new Error(`OAuth provider '${name}' is missing required setting 'scopes'`);
+      }
+
+      // The auth-server issues the id_tokens of this provider and publishes their keys itself
+      if (adapter.fetchUser) {
+        if (!settings.signingKeyFile) {
+          throw new Error(`OAuth provider '${name}' is missing required setting 'signingKeyFile'`);
+        }
+
+        settings.jwksUrl ??= `${settings.issuer.replace(/\/+$/, '')}/jwks`;
+      }
+
+      this.providers.set(name, { adapter, settings });
+      this.logger.log(`Registered OAuth provider: ${name} (${settings.issuer})`);
+    }
+  }
+
+  /**
+   * Get a registered provider by name, without resolving discovered endpoints
+   *
+   * @param name - Provider name from the route
+   * @returns The provider adapter and configured settings
+   * @throws NotFoundException if the provider is unknown or not configured
+   */
+  get(name: string): RegisteredProvider {
+    const provider = this.providers.get(name);
+
+    if (!provider) {
+      throw new NotFoundException(`OAuth provider '${name}' is not configured`);
+    }
+
+    return provider;
+  }
+
+  /**
+   * Get a registered provider with all endpoints resolved
+   *
+   * @param name - Provider name from the route
+   * @returns The provider adapter and complete settings
+   * @throws NotFoundException if the provider is unknown or not configured
+   * @throws ServiceUnavailableException if endpoint discovery fails
+   */
+  async resolve(name: string): Promise<ResolvedProvider> {
+    const { adapter, settings } = this.get(name);
+
+    if (ENDPOINT_KEYS.every((key) => settings[key])) {
+      return { adapter, settings: settings as OAuthProviderSettings };
+    }
+
+    let document;
+
+    try {
+      document = await this.discovery.discover(settings.issuer!);
+    } catch (error) {
+      throw new ServiceUnavailableException(
+        `OAuth provider '${name}' is unavailable: ${error instanceof Error ? error.message : 'discovery failed'}`,
+      );
+    }
+
+    return {
+      adapter,
+      settings: {
+        ...settings,
+        issuer: settings.issuer!,
+        scopes: settings.scopes!,
+        authorizeUrl: settings.authorizeUrl ?? document.authorization_endpoint,
+        tokenUrl: settings.tokenUrl ?? document.token_endpoint,
+        jwksUrl: settings.jwksUrl ?? document.jwks_uri,
+      },
+    };
+  }
+
+  /**
+   * Check whether an id_token `iss` claim belongs to a provider
+   *
+   * @param name - Provider name
+   * @param iss - The `iss` claim of the id_token
+   * @returns true if the issuer matches the provider's issuer or one of its aliases
+   */
+  isIssuer(name: string, iss: string | undefined): boolean {
+    const { adapter, settings } = this.get(name);
+
+    return !!iss && (iss === settings.issuer || !!adapter.issuerAliases?.includes(iss));
+  }
+
+  /**
+   * Find the provider that issues id_tokens with the given `iss` claim
+   *
+   * @param iss - The `iss` claim of the id_token
+   * @returns The provider name, or undefined if no registered provider matches
+   */
+  findByIssuer(iss: string | undefined): string | undefined {
+    return this.names().find((name) => this.isIssuer(name, iss));
+  }
+
+  /**
+   * List the names of all registered providers
+   */
+  names(): string[] {
+    return [...this.providers.keys()];
+  }
+}
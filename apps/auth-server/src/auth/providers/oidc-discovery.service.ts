@@ -0,0 +1,89 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import { z } from 'zod';
+
+/**
+ * How long a discovery document is reused before being fetched again (1 hour)
+ */
+const DISCOVERY_TTL = 60 * 60 * 1000;
+
+/**
+ * Discovery request timeout (10 seconds)
+ */
+const DISCOVERY_TIMEOUT = 10000;
+
+/**
+ * Subset of the OpenID Provider Metadata used by the auth-server
+ *
+ * @see https://openid.net/specs/openid-connect-discovery-1_0.html#ProviderMetadata
+ */
+const OidcDiscoveryDocumentSchema = z.object({
+  issuer: z.string().min(1),
+  authorization_endpoint: z.string().url(),
+  token_endpoint: z.string().url(),
+  jwks_uri: z.string().url(),
+});
+
+export type OidcDiscoveryDocument = z.infer<typeof OidcDiscoveryDocumentSchema>;
+
+interface CachedDocument {
+  document: OidcDiscoveryDocument;
+  fetchedAt: number;
+}
+
+/**
+ * OpenID Connect Discovery Service
+ *
+ * Fetches and caches `/.well-known/openid-configuration` per issuer.
+ */
+@Injectable()
+export class OidcDiscoveryService {
+  private readonly logger = new Logger(OidcDiscoveryService.name);
+  private readonly cache = new Map<string, CachedDocument>();
+
+  /**
+   * Get the discovery document of an issuer
+   *
+   * @param issuer - Issuer URL (e.g. https://accounts.google.com)
+   * @returns The validated discovery document
+   * @throws Error if the document cannot be fetched, is malformed, or belongs to another issuer
+   */
+  async discover(issuer: string): Promise<OidcDiscoveryDocument> {
+    const cached = this.cache.get(issuer);
+
+    if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL) {
+      return cached.document;
+    }
+
+    const url = `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+
+    this.logger.log(`Fetching OpenID configuration: ${url}`);
+
+    try {
+      const response = await axios.get<unknown>(url, { timeout: DISCOVERY_TIMEOUT });
+      const document = OidcDiscoveryDocumentSchema.parse(response.data);
+
+      // Discovery spec: the returned issuer MUST be identical to the one used to build the URL
+      if (document.issuer !== issuer) {
+        throw new Error(`Issuer mismatch: expected ${issuer}, got ${document.issuer}`);
+      }
+
+      this.cache.set(issuer, { document, fetchedAt: Date.now() });
+
+      return document;
+    } catch (error) {
+      // Keep serving a stale document rather than breaking logins during an IdP outage
+      if (cached) {
+        this.logger.warn(`Failed to refresh OpenID configuration for ${issuer}, using cached copy`);
+
+        return cached.document;
+      }
+
+      this.logger.error(`Failed to fetch OpenID configuration for ${issuer}`, error);
+      throw new Error(`OpenID discovery failed for issuer ${issuer}`);
+    }
+  }
+}
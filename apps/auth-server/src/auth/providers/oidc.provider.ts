@@ -0,0 +1,23 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { OAuthProviderAdapter } from './oauth-provider.interface.js';
+
+/**
+ * Create an adapter for a generic OpenID Connect provider (Keycloak, Okta, Azure AD, ...)
+ *
+ * Only the issuer has to be configured, endpoints are discovered from
+ * `{issuer}/.well-known/openid-configuration`.
+ *
+ * @param name - Provider name, used as the `/auth/:provider` route segment
+ * @returns The provider adapter
+ */
+export function createOidcProvider(name: string): OAuthProviderAdapter {
+  return {
+    name,
+    userProvider: 'oidc',
+    defaults: {
+      scopes: ['openid', 'email', 'profile'],
+    },
+  };
+}
@@ -3,6 +3,25 @@
 
 import { z } from 'zod';
 
+/**
+ * Per-provider OAuth configuration
+ *
+ * Endpoint settings are optional overrides of the provider adapter defaults
+ * and of the endpoints discovered from the issuer.
+ */
+const OAuthProviderConfigSchema = z.object({
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1).optional(),
+  redirectUri: z.string().url(),
+  authorizeUrl: z.string().url().optional(),
+  tokenUrl: z.string().url().optional(),
+  jwksUrl: z.string().url().optional(),
+  jwksFile: z.string().min(1).optional(),
+  signingKeyFile: z.string().min(1).optional(),
+  issuer: z.string().min(1).optional(),
+  scopes: z.array(z.string().min(1)).optional(),
+});
+
 export const AuthServerConfigSchema = z.object({
   port: z.coerce.number().int().min(1).max(65535).default(3000),
 
@@ -16,24 +35,132 @@ export const AuthServerConfigSchema = z.object({
     url: z.string().min(1),
   }),
 
-  google: z.object({
-    clientId: z.string().min(1),
-    clientSecret: z.string().min(1),
-    redirectUri: z.string().url(),
-    certUrl: z.string().url().default('https://www.googleapis.com/oauth2/v3/certs'),
+  oauth: z.record(
+    z.string().regex(/^[a-z0-9-]+$/, 'Provider names must be lowercase letters, digits or dashes'),
+    OAuthProviderConfigSchema,
+  ),
+
+  nonce: z.object({
+    ttlSeconds: z.coerce.number().int().min(1).default(600),
+  }),
+
+  epoch: z
+    .object({
+      provider: z.enum(['sui', 'timestamp']).default('timestamp'),
+      suiRpcUrl: z.string().url().optional(),
+      window: z.coerce.number().int().min(0).default(2),
+      timestampWindowSeconds: z.coerce.number().int().min(1).default(86400),
+      timeoutMs: z.coerce.number().int().min(1).default(5000),
+    })
+    .superRefine((epoch, ctx) => {
+      if (epoch.provider === 'sui' && !epoch.suiRpcUrl) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['suiRpcUrl'], message: 'Required by EPOCH_PROVIDER=sui' });
+      }
+    }),
+
+  jwt: z.object({
+    clockSkewSeconds: z.coerce.number().int().min(0).default(60),
+  }),
+
+  proof: z.object({
+    signatureMaxAgeSeconds: z.coerce.number().int().min(1).default(300),
   }),
 
   frontend: z.object({
     origin: z.string().url(),
   }),
 
-  salt: z.object({
-    serverUrl: z.string().url().optional(),
+  address: z.object({
+    ss58Prefix: z.coerce.number().int().min(0).max(16383).optional(),
+  }),
+
+  webhook: z.object({
+    adminApiKey: z.string().min(32, 'WEBHOOK_ADMIN_API_KEY must be at least 32 characters').optional(),
+    timeoutMs: z.coerce.number().int().min(1).default(5000),
+    maxAttempts: z.coerce.number().int().min(1).default(8),
+    retryDelayMs: z.coerce.number().int().min(0).default(10000),
   }),
+
+  salt: z
+    .object({
+      provider: z.enum(['remote', 'hkdf', 'random']).optional(),
+      serverUrl: z.string().url().optional(),
+      masterSeed: z.string().min(32, 'SALT_MASTER_SEED must be at least 32 characters').optional(),
+      timeoutMs: z.coerce.number().int().min(1).default(5000),
+      retries: z.coerce.number().int().min(0).default(2),
+      retryDelayMs: z.coerce.number().int().min(0).default(200),
+      circuitBreakerThreshold: z.coerce.number().int().min(1).default(5),
+      circuitBreakerResetMs: z.coerce.number().int().min(0).default(30000),
+      version: z.coerce.number().int().min(1).default(1),
+      rotation: z.enum(['keep', 'migrate']).default('keep'),
+    })
+    .superRefine((salt, ctx) => {
+      if (salt.provider === 'remote' && !salt.serverUrl) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['serverUrl'], message: 'Required by SALT_PROVIDER=remote' });
+      }
+
+      if (salt.provider === 'hkdf' && !salt.masterSeed) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['masterSeed'], message: 'Required by SALT_PROVIDER=hkdf' });
+      }
+    }),
 });
 
 export type AuthServerConfig = z.infer<typeof AuthServerConfigSchema>;
 
+/**
+ * Map `{PREFIX}_*` environment variables to a provider config block
+ *
+ * A provider is only registered when its `{PREFIX}_CLIENT_ID` is set.
+ * `{PREFIX}_CERT_URL` is accepted as an alias of `{PREFIX}_JWKS_URL`.
+ */
+function mapOAuthProviderEnv(config: Record<string, unknown>, prefix: string) {
+  if (!config[`${prefix}_CLIENT_ID`]) {
+    return undefined;
+  }
+
+  const scopes = config[`${prefix}_SCOPES`] as string | undefined;
+
+  return {
+    clientId: config[`${prefix}_CLIENT_ID`],
+    // Left empty for public clients
+    clientSecret: config[`${prefix}_CLIENT_SECRET`] || undefined,
+    redirectUri: config[`${prefix}_REDIRECT_URI`],
+    authorizeUrl: config[`${prefix}_AUTHORIZE_URL`] || undefined,
+    tokenUrl: config[`${prefix}_TOKEN_URL`] || undefined,
+    jwksUrl: config[`${prefix}_JWKS_URL`] || config[`${prefix}_CERT_URL`] || undefined,
+    jwksFile: config[`${prefix}_JWKS_FILE`] || undefined,
+    signingKeyFile: config[`${prefix}_SIGNING_KEY_FILE`] || undefined,
+    issuer: config[`${prefix}_ISSUER`] || undefined,
+    scopes: scopes ? scopes.split(/[\s,]+/).filter(Boolean) : undefined,
+  };
+}
+
+/**
+ * Map all OAuth providers from environment variables
+ *
+ * Built-in providers are `google` and `github`. Generic OpenID Connect providers are
+ * listed in `OIDC_PROVIDERS` (comma separated names) and configured the same way,
+ * e.g. `OIDC_PROVIDERS=keycloak` with `KEYCLOAK_ISSUER`, `KEYCLOAK_CLIENT_ID`, ...
+ */
+function mapOAuthProvidersEnv(config: Record<string, unknown>) {
+  const oidcProviders = ((config.OIDC_PROVIDERS as string | undefined) ?? '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers: Record<string, ReturnType<typeof mapOAuthProviderEnv>> = {};
+
+  for (const name of ['google', 'github', ...oidcProviders]) {
+    const providerConfig = mapOAuthProviderEnv(config, name.toUpperCase().replace(/-/g, '_'));
+
+    if (providerConfig) {
+      providers[name] = providerConfig;
+    }
+  }
+
+  return providers;
+}
+
 export function validate(config: Record<string, unknown>) {
   const mappedConfig = {
     port: config.PORT,
@@ -43,17 +170,46 @@ export function validate(config: Record<string, unknown>) {
     database: {
       url: config.DATABASE_URL,
     },
-    google: {
-      clientId: config.GOOGLE_CLIENT_ID,
-      clientSecret: config.GOOGLE_CLIENT_SECRET,
-      redirectUri: config.GOOGLE_REDIRECT_URI,
-      certUrl: config.GOOGLE_CERT_URL,
+    oauth: mapOAuthProvidersEnv(config),
+    nonce: {
+      ttlSeconds: config.NONCE_TTL_SECONDS || undefined,
+    },
+    epoch: {
+      provider: config.EPOCH_PROVIDER || undefined,
+      suiRpcUrl: config.SUI_RPC_URL || undefined,
+      window: config.EPOCH_WINDOW || undefined,
+      timestampWindowSeconds: config.EPOCH_TIMESTAMP_WINDOW_SECONDS || undefined,
+      timeoutMs: config.SUI_RPC_TIMEOUT_MS || undefined,
+    },
+    jwt: {
+      clockSkewSeconds: config.JWT_CLOCK_SKEW_SECONDS || undefined,
+    },
+    proof: {
+      signatureMaxAgeSeconds: config.PROOF_SIGNATURE_MAX_AGE_SECONDS || undefined,
     },
     frontend: {
       origin: config.FRONTEND_ORIGIN,
     },
+    address: {
+      ss58Prefix: config.SS58_PREFIX || undefined,
+    },
+    webhook: {
+      adminApiKey: config.WEBHOOK_ADMIN_API_KEY || undefined,
+      timeoutMs: config.WEBHOOK_TIMEOUT_MS || undefined,
+      maxAttempts: config.WEBHOOK_MAX_ATTEMPTS || undefined,
+      retryDelayMs: config.WEBHOOK_RETRY_DELAY_MS || undefined,
+    },
     salt: {
-      serverUrl: config.SALT_SERVER_URL,
+      provider: config.SALT_PROVIDER || undefined,
+      serverUrl: config.SALT_SERVER_URL || undefined,
+      masterSeed: config.SALT_MASTER_SEED || undefined,
+      timeoutMs: config.SALT_SERVER_TIMEOUT_MS || undefined,
+      retries: config.SALT_SERVER_RETRIES || undefined,
+      retryDelayMs: config.SALT_SERVER_RETRY_DELAY_MS || undefined,
+      circuitBreakerThreshold: config.SALT_SERVER_CIRCUIT_BREAKER_THRESHOLD || undefined,
+      circuitBreakerResetMs: config.SALT_SERVER_CIRCUIT_BREAKER_RESET_MS || undefined,
+      version: config.SALT_VERSION || undefined,
+      rotation: config.SALT_ROTATION || undefined,
     },
   };
 
@@ -0,0 +1,16 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+/**
+ * Error thrown when a requested maxEpoch is outside the server policy
+ */
+export class EpochOutOfRangeError extends Error {
+  constructor(
+    public readonly requested: number,
+    public readonly min: number,
+    public readonly max: number,
+  ) {
+    super(`max_epoch ${requested} is outside the allowed range [${min}, ${max}]`);
+    this.name = 'EpochOutOfRangeError';
+  }
+}
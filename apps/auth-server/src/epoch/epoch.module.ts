@@ -0,0 +1,12 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { Module } from '@nestjs/common';
+
+import { EpochService } from './epoch.service.js';
+
+@Module({
+  providers: [EpochService],
+  exports: [EpochService],
+})
+export class EpochModule {}
@@ -0,0 +1,57 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { AuthServerConfig } from '../config/config.interface.js';
+import type { EpochProvider, MaxEpoch } from './providers/epoch-provider.interface.js';
+
+import { BadRequestException, Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SuiEpochProvider } from './providers/sui.provider.js';
+import { TimestampEpochProvider } from './providers/timestamp.provider.js';
+import { EpochOutOfRangeError } from './epoch.errors.js';
+
+/**
+ * Epoch Service
+ *
+ * Produces the `maxEpoch` committed in zkLogin nonces with the provider selected by `EPOCH_PROVIDER`:
+ * - sui: current Sui epoch + `EPOCH_WINDOW`, read from `SUI_RPC_URL`
+ * - timestamp: now + `EPOCH_TIMESTAMP_WINDOW_SECONDS` in milliseconds, for non-Sui chains
+ */
+@Injectable()
+export class EpochService {
+  private readonly logger = new Logger(EpochService.name);
+  private readonly provider: EpochProvider;
+
+  constructor(config: ConfigService<AuthServerConfig, true>) {
+    const { provider, suiRpcUrl, window, timestampWindowSeconds, timeoutMs } = config.get('epoch', { infer: true });
+
+    this.provider =
+      provider === 'sui'
+        ? new SuiEpochProvider({ rpcUrl: suiRpcUrl!, window, timeoutMs })
+        : new TimestampEpochProvider(timestampWindowSeconds);
+
+    this.logger.log(`Using ${this.provider.name} epoch provider`);
+  }
+
+  /**
+   * Get the maxEpoch for a new ephemeral key
+   *
+   * @param requested - maxEpoch chosen by the client, defaults to the largest allowed one
+   * @returns The maxEpoch and when it expires
+   * @throws BadRequestException if `requested` is outside the allowed range
+   * @throws ServiceUnavailableException if the current epoch cannot be determined
+   */
+  async getMaxEpoch(requested?: number): Promise<MaxEpoch> {
+    try {
+      return await this.provider.getMaxEpoch(requested);
+    } catch (error) {
+      if (error instanceof EpochOutOfRangeError) {
+        throw new BadRequestException(error.message);
+      }
+
+      this.logger.error(`Failed to get epoch from ${this.provider.name} epoch provider`, error);
+      throw new ServiceUnavailableException('Current epoch is unavailable');
+    }
+  }
+}
@@ -0,0 +1,36 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+/**
+ * Expiry of an ephemeral key
+ */
+export interface MaxEpoch {
+  /**
+   * Value committed in the zkLogin nonce (chain epoch or millisecond timestamp)
+   */
+  maxEpoch: number;
+
+  /**
+   * Estimated time at which `maxEpoch` has passed and the ephemeral key stops working
+   */
+  expiresAt: Date;
+}
+
+/**
+ * Source of the `maxEpoch` committed in zkLogin nonces
+ */
+export interface EpochProvider {
+  /**
+   * Provider name, as selected by `EPOCH_PROVIDER`
+   */
+  readonly name: string;
+
+  /**
+   * Get the last epoch in which a new ephemeral key is valid
+   *
+   * @param requested - maxEpoch chosen by the client, defaults to the largest allowed one
+   * @throws EpochOutOfRangeError if `requested` is in the past or beyond the configured window
+   * @throws Error if the current epoch cannot be determined
+   */
+  getMaxEpoch(requested?: number): Promise<MaxEpoch>;
+}
@@ -0,0 +1,121 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { AddressInfo } from 'node:net';
+
+import { createServer, type Server } from 'node:http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { EpochOutOfRangeError } from '../epoch.errors.js';
+import { SuiEpochProvider } from './sui.provider.js';
+
+const EPOCH_DURATION_MS = 86_400_000;
+
+describe('SuiEpochProvider', () => {
+  let server: Server;
+  let rpcUrl: string;
+  let requests: { method: string }[];
+  let reply: () => unknown;
+
+  beforeAll(async () => {
+    // Local stub of a Sui full node JSON-RPC endpoint
+    server = createServer((req, res) => {
+      let body = '';
+
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push(JSON.parse(body));
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(reply()));
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    reply = () => ({
+      jsonrpc: '2.0',
+      id: 1,
+      result: {
+        epoch: '512',
+        epochStartTimestampMs: String(Date.now() - 1000),
+        epochDurationMs: String(EPOCH_DURATION_MS),
+      },
+    });
+  });
+
+  it('returns the current epoch plus the window', async () => {
+    const provider = new SuiEpochProvider({ rpcUrl, window: 2, timeoutMs: 1000 });
+
+    const { maxEpoch, expiresAt } = await provider.getMaxEpoch();
+
+    expect(requests).toEqual([expect.objectContaining({ method: 'suix_getLatestSuiSystemState' })]);
+    expect(maxEpoch).toBe(514);
+    // Valid until the end of epoch 514
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + 2 * EPOCH_DURATION_MS);
+    expect(expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 3 * EPOCH_DURATION_MS);
+  });
+
+  it('accepts a client-chosen maxEpoch within the window', async () => {
+    const provider = new SuiEpochProvider({ rpcUrl, window: 2, timeoutMs: 1000 });
+
+    const { maxEpoch, expiresAt } = await provider.getMaxEpoch(512);
+
+    expect(maxEpoch).toBe(512);
+    expect(expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + EPOCH_DURATION_MS);
+  });
+
+  it('rejects a client-chosen maxEpoch outside the window', async () => {
+    const provider = new SuiEpochProvider({ rpcUrl, window: 2, timeoutMs: 1000 });
+
+    await expect(provider.getMaxEpoch(511)).rejects.toBeInstanceOf(EpochOutOfRangeError);
+    await expect(provider.getMaxEpoch(515)).rejects.toThrow('max_epoch 515 is outside the allowed range [512, 514]');
+  });
+
+  it('caches the system state until the epoch ends', async () => {
+    const provider = new SuiEpochProvider({ rpcUrl, window: 2, timeoutMs: 1000 });
+
+    await provider.getMaxEpoch();
+    await provider.getMaxEpoch();
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it('refetches once the cached epoch has ended', async () => {
+    reply = () => ({
+      jsonrpc: '2.0',
+      id: 1,
+      result: { epoch: '7', epochStartTimestampMs: '0', epochDurationMs: '1000' },
+    });
+
+    const provider = new SuiEpochProvider({ rpcUrl, window: 0, timeoutMs: 1000 });
+
+    await provider.getMaxEpoch();
+    await provider.getMaxEpoch();
+
+    expect(requests).toHaveLength(2);
+  });
+
+  it('throws on JSON-RPC errors', async () => {
+    reply = () => ({ jsonrpc: '2.0', id: 1, error: { code: -32601, message: 'Method not found' } });
+
+    const provider = new SuiEpochProvider({ rpcUrl, window: 2, timeoutMs: 1000 });
+
+    await expect(provider.getMaxEpoch()).rejects.toThrow('Sui RPC error -32601: Method not found');
+  });
+
+  it('throws on malformed responses', async () => {
+    reply = () => ({ jsonrpc: '2.0', id: 1, result: { epoch: 'latest' } });
+
+    const provider = new SuiEpochProvider({ rpcUrl, window: 2, timeoutMs: 1000 });
+
+    await expect(provider.getMaxEpoch()).rejects.toThrow('Invalid suix_getLatestSuiSystemState response');
+  });
+});
@@ -0,0 +1,103 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { EpochProvider, MaxEpoch } from './epoch-provider.interface.js';
+
+import axios from 'axios';
+import { z } from 'zod';
+
+import { EpochOutOfRangeError } from '../epoch.errors.js';
+
+/**
+ * Options of the Sui epoch provider
+ */
+export interface SuiEpochProviderOptions {
+  /**
+   * Sui full node JSON-RPC URL
+   */
+  rpcUrl: string;
+
+  /**
+   * Number of epochs after the current one in which a new ephemeral key stays valid
+   */
+  window: number;
+
+  /**
+   * Timeout of the RPC request in milliseconds
+   */
+  timeoutMs: number;
+}
+
+const SystemStateResponseSchema = z.object({
+  result: z.object({
+    epoch: z.coerce.number().int().min(0),
+    epochStartTimestampMs: z.coerce.number().int().min(0),
+    epochDurationMs: z.coerce.number().int().min(1),
+  }),
+});
+
+const RpcErrorSchema = z.object({
+  error: z.object({ code: z.number(), message: z.string() }),
+});
+
+type SystemState = z.infer<typeof SystemStateResponseSchema>['result'];
+
+/**
+ * Sui chain epoch as maxEpoch
+ *
+ * maxEpoch = current epoch + window, read with `suix_getLatestSuiSystemState`.
+ * A client may choose any maxEpoch from the current epoch up to that limit.
+ * The system state is cached until the current epoch is expected to end.
+ */
+export class SuiEpochProvider implements EpochProvider {
+  readonly name = 'sui';
+
+  private cached?: SystemState;
+
+  constructor(private readonly options: SuiEpochProviderOptions) {}
+
+  async getMaxEpoch(requested?: number): Promise<MaxEpoch> {
+    const { epoch, epochStartTimestampMs, epochDurationMs } = await this.getSystemState();
+    const limit = epoch + this.options.window;
+
+    if (requested !== undefined && (requested < epoch || requested > limit)) {
+      throw new EpochOutOfRangeError(requested, epoch, limit);
+    }
+
+    const maxEpoch = requested ?? limit;
+
+    // maxEpoch is still valid during its whole duration
+    return {
+      maxEpoch,
+      expiresAt: new Date(epochStartTimestampMs + (maxEpoch - epoch + 1) * epochDurationMs),
+    };
+  }
+
+  private async getSystemState(): Promise<SystemState> {
+    if (this.cached && Date.now() < this.cached.epochStartTimestampMs + this.cached.epochDurationMs) {
+      return this.cached;
+    }
+
+    const response = await axios.post(
+      this.options.rpcUrl,
+      { jsonrpc: '2.0', id: 1, method: 'suix_getLatestSuiSystemState', params: [] },
+      { headers: { 'Content-Type': 'application/json' }, timeout: this.options.timeoutMs },
+    );
+
+    const rpcError = RpcErrorSchema.safeParse(response.data);
+
+    if (rpcError.success) {
+      throw new Error(`Sui RPC error ${rpcError.data.error.code}: ${rpcError.data.error.message}`);
+    }
+
+    const result = SystemStateResponseSchema.safeParse(response.data);
+
+    if (!result.success) {
+      throw new Error(`Invalid suix_getLatestSuiSystemState response: ${result.error.message}`);
+    }
+
+    this.cached = result.data.result;
+
+    return this.cached;
+  }
+}
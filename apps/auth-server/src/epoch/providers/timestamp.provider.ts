@@ -0,0 +1,31 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { EpochProvider, MaxEpoch } from './epoch-provider.interface.js';
+
+import { EpochOutOfRangeError } from '../epoch.errors.js';
+
+/**
+ * Millisecond timestamp as maxEpoch, for chains without Sui epochs
+ */
+export class TimestampEpochProvider implements EpochProvider {
+  readonly name = 'timestamp';
+
+  /**
+   * @param windowSeconds - How long a new ephemeral key stays valid
+   */
+  constructor(private readonly windowSeconds: number) {}
+
+  getMaxEpoch(requested?: number): Promise<MaxEpoch> {
+    const now = Date.now();
+    const limit = now + this.windowSeconds * 1000;
+
+    if (requested !== undefined && (requested <= now || requested > limit)) {
+      return Promise.reject(new EpochOutOfRangeError(requested, now + 1, limit));
+    }
+
+    const maxEpoch = requested ?? limit;
+
+    return Promise.resolve({ maxEpoch, expiresAt: new Date(maxEpoch) });
+  }
+}
@@ -46,6 +46,7 @@ async function bootstrap() {
     .setContact('kzero Team', 'https://github.com/kzero-xyz', 'dev@kzero.xyz')
     .setLicense('GNU General Public License v3.0', 'https://www.gnu.org/licenses/gpl-3.0.html')
     .addServer('http://localhost:3000', 'Local Development')
+    .addApiKey({ type: 'apiKey', name: 'x-api-key', in: 'header' }, 'admin-api-key')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
@@ -3,18 +3,74 @@
 
 import { ApiProperty } from '@nestjs/swagger';
 
+/**
+ * Groth16 proof points of a zkLogin signature
+ */
+export class ZkLoginProofPointsDto {
+  @ApiProperty({ description: 'Proof point A', type: [String] })
+  a!: string[];
+
+  @ApiProperty({ description: 'Proof point B', type: 'array', items: { type: 'array', items: { type: 'string' } } })
+  b!: string[][];
+
+  @ApiProperty({ description: 'Proof point C', type: [String] })
+  c!: string[];
+}
+
+/**
+ * Base64 substring of the JWT `iss` claim
+ */
+export class IssBase64DetailsDto {
+  @ApiProperty({
+    description: 'Base64url characters covering the "iss" claim of the JWT payload',
+    example: 'yJpc3MiOiJodHRwczovL2FjY291bnRzLmdvb2dsZS5jb20iLC',
+  })
+  value!: string;
+
+  @ApiProperty({ description: 'Offset of value in the JWT payload modulo 4', example: 1 })
+  indexMod4!: number;
+}
+
+/**
+ * zkLogin signature inputs
+ * Matches the `inputs` of `getZkLoginSignature` from `@mysten/sui/zklogin`
+ */
+export class ZkLoginInputsDto {
+  @ApiProperty({ description: 'Groth16 proof points', type: ZkLoginProofPointsDto })
+  proofPoints!: ZkLoginProofPointsDto;
+
+  @ApiProperty({ description: 'Issuer claim of the JWT', type: IssBase64DetailsDto })
+  issBase64Details!: IssBase64DetailsDto;
+
+  @ApiProperty({ description: 'Base64url JWT header', example: 'eyJhbGciOiJSUzI1NiIsImtpZCI6IjEifQ' })
+  headerBase64!: string;
+
+  @ApiProperty({ description: 'Address seed', example: '12345678901234567890123456789012' })
+  addressSeed!: string;
+}
+
 /**
  * Proof results data structure
  * Matches the format from tmp/auth-server for compatibility
  */
 export class ProofResultsDto {
   @ApiProperty({
-    description: 'Proof generation status',
+    description:
+      'Proof generation status, failed also when generation failed on every retry or did not complete in time',
     enum: ['waiting', 'generating', 'generated', 'failed'],
     example: 'generated',
   })
   status!: string;
 
+  @ApiProperty({
+    description:
+      'Why the proof failed (e.g. SALT_TIMEOUT, SALT_INVALID_RESPONSE, ZK_INPUT_FAILED), or PROOF_TIMEOUT when it did not complete in time, null otherwise',
+    type: String,
+    nullable: true,
+    example: null,
+  })
+  errorCode!: string | null;
+
   @ApiProperty({
     description: 'Public signals from ZK proof',
     type: [String],
@@ -24,7 +80,7 @@ export class ProofResultsDto {
   public!: string[] | null;
 
   @ApiProperty({
-    description: 'Maximum epoch from nonce',
+    description: 'Maximum epoch from nonce (Sui epoch, or millisecond timestamp in timestamp mode)',
     type: Number,
     example: 1234567890,
   })
@@ -38,13 +94,25 @@ export class ProofResultsDto {
   kid!: string;
 
   @ApiProperty({
-    description: 'Formatted ZK proof as JSON string containing proof_points, iss_base64_details, and header',
+    description:
+      'Formatted ZK proof as JSON string containing proof_points, iss_base64_details, and header. ' +
+      'Deprecated: use zkLoginInputs',
     type: String,
     nullable: true,
+    deprecated: true,
     example: '{"proof_points":{"a":["..."],"b":[["..."]],"c":["..."]},"iss_base64_details":"...","header":"..."}',
   })
   proof!: string | null;
 
+  @ApiProperty({
+    description:
+      'zkLogin signature inputs, null until the proof is generated. Combine with maxEpoch and an ephemeral key ' +
+      'signature using serializeZkLoginSignature (@kzero/common) or getZkLoginSignature (@mysten/sui/zklogin)',
+    type: ZkLoginInputsDto,
+    nullable: true,
+  })
+  zkLoginInputs!: ZkLoginInputsDto | null;
+
   @ApiProperty({
     description: 'Address seed derived from the proof',
     type: String,
@@ -53,9 +121,26 @@ export class ProofResultsDto {
   })
   addressSeed!: string | null;
 
+  @ApiProperty({
+    description: 'Sui zkLogin address derived from addressSeed and the JWT issuer',
+    type: String,
+    nullable: true,
+    example: '0xf7badc2b245c7f74d7509a4aa357ecf80a29e7713fb4c44b0e7541ec43885ee1',
+  })
+  address!: string | null;
+
+  @ApiProperty({
+    description: 'SS58 address for the configured Substrate network (SS58_PREFIX), null when not configured',
+    type: String,
+    nullable: true,
+    required: false,
+    example: '5HfXCBtCTHR87AJak7EJemLqjPRynLJSSG8Dcbcuu814iQYS',
+  })
+  ss58Address?: string | null;
+
   @ApiProperty({
     description: 'OAuth provider',
-    enum: ['google', 'twitter', 'github'],
+    enum: ['google', 'twitter', 'github', 'oidc'],
     example: 'google',
   })
   provider!: string;
@@ -98,9 +183,9 @@ export class ProofResultsDto {
   updatedAt!: Date;
 
   @ApiProperty({
-    description: 'Expiration epoch (same as maxEpoch)',
+    description: 'Estimated time (Unix milliseconds) at which maxEpoch has passed and the ephemeral key stops working',
     type: Number,
-    example: 1234567890,
+    example: 1735776000000,
   })
   expiresAt!: number;
 }
@@ -2,8 +2,15 @@
 // SPDX-License-Identifier: GNU General Public License v3.0
 
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import { IsInt, IsNotEmpty, IsString } from 'class-validator';
 
+/**
+ * Proof query, signed by the ephemeral private key
+ *
+ * `signature` is a Sui personal message signature of
+ * `kzero:get-proof:{ephemeral_public_key}:{timestamp}` (see `getProofRequestMessage` in @kzero/common).
+ */
 export class GetProofDto {
   @ApiProperty({
     description: 'Ephemeral public key in hexadecimal format (must start with 0x)',
@@ -14,6 +21,26 @@ export class GetProofDto {
   @IsString()
   @IsNotEmpty()
   ephemeral_public_key!: string;
+
+  @ApiProperty({
+    description: 'Unix timestamp in milliseconds at signing time, must be recent',
+    example: 1735689600000,
+    type: Number,
+    required: true,
+  })
+  @Type(() => Number)
+  @IsInt()
+  timestamp!: number;
+
+  @ApiProperty({
+    description: 'Serialized Sui signature (base64) of kzero:get-proof:{ephemeral_public_key}:{timestamp}',
+    example: 'AOq...',
+    type: String,
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  signature!: string;
 }
 
 export class CreateProofDto {
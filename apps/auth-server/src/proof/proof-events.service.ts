@@ -0,0 +1,158 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { Notification } from 'pg';
+import type { Observable } from 'rxjs';
+import type { AuthServerConfig } from '../config/config.interface.js';
+
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import pg from 'pg';
+import { filter, map, Subject } from 'rxjs';
+
+/**
+ * Postgres channel the proof status trigger notifies on
+ *
+ * The trigger is created by the `notify_proof_status` migration of @kzero/database.
+ */
+export const PROOF_STATUS_CHANNEL = 'proof_status';
+
+/**
+ * Delay before listening again after the notification connection dropped
+ */
+const RECONNECT_DELAY_MS = 1000;
+
+/**
+ * Payload of a proof status notification
+ */
+export interface ProofStatusNotification {
+  nonce: string;
+  ephemeralPublicKey: string | null;
+  status: string;
+}
+
+/**
+ * Proof Events Service
+ *
+ * Turns proof status changes into an in-process stream with Postgres LISTEN/NOTIFY.
+ * A trigger on `proofs`, installed by a database migration, notifies on every insert and
+ * status change, whichever service writes the row, so SSE clients are pushed updates
+ * instead of polling the database.
+ */
+@Injectable()
+export class ProofEventsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ProofEventsService.name);
+  // null asks every watcher to re-read its proof, notifications may have been missed
+  private readonly notifications = new Subject<ProofStatusNotification | null>();
+  private client: pg.Client | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private destroyed = false;
+
+  constructor(private readonly config: ConfigService<AuthServerConfig, true>) {}
+
+  async onModuleInit() {
+    await this.listen();
+  }
+
+  async onModuleDestroy() {
+    this.destroyed = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+
+    this.notifications.complete();
+    await this.client?.end().catch(() => undefined);
+  }
+
+  /**
+   * Changes of the proof for an ephemeral key
+   *
+   * Keyed on the ephemeral key rather than the nonce, which is replaced when the login
+   * is initiated again. Also emits after the notification connection was re-established,
+   * so a watcher re-reads its proof instead of missing a transition.
+   *
+   * @param ephemeralPublicKey - Ephemeral key of the nonce the proof was requested for
+   */
+  changes(ephemeralPublicKey: string): Observable<void> {
+    return this.notifications.pipe(
+      filter((notification) => notification === null || notification.ephemeralPublicKey === ephemeralPublicKey),
+      map(() => undefined),
+    );
+  }
+
+  /**
+   * Every proof insert and status change, across all nonces
+   */
+  statusChanges(): Observable<ProofStatusNotification> {
+    return this.notifications.pipe(
+      filter((notification): notification is ProofStatusNotification => notification !== null),
+    );
+  }
+
+  /**
+   * Open a dedicated connection and LISTEN on the proof status channel
+   *
+   * Prisma pools its connections, so notifications need a connection of their own.
+   */
+  private async listen() {
+    const client = new pg.Client({ connectionString: this.config.get('database.url', { infer: true }) });
+
+    client.on('notification', (message) => this.onNotification(message));
+    client.on('error', (error) => {
+      this.logger.error('Proof status notification connection failed', error);
+      this.onConnectionLost(client);
+    });
+    client.on('end', () => this.onConnectionLost(client));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${PROOF_STATUS_CHANNEL}`);
+    } catch (error) {
+      await client.end().catch(() => undefined);
+      throw error;
+    }
+
+    this.client = client;
+    this.logger.log(`Listening for proof status changes on ${PROOF_STATUS_CHANNEL}`);
+  }
+
+  private onNotification({ channel, payload }: Notification) {
+    if (channel !== PROOF_STATUS_CHANNEL || !payload) {
+      return;
+    }
+
+    try {
+      this.notifications.next(JSON.parse(payload) as ProofStatusNotification);
+    } catch (error) {
+      this.logger.warn(`Ignoring malformed proof status notification: ${payload}`, error);
+    }
+  }
+
+  private onConnectionLost(client: pg.Client) {
+    // Both 'error' and 'end' fire for one dropped connection
+    if (this.client !== client) {
+      return;
+    }
+
+    this.client = null;
+    client.end().catch(() => undefined);
+    this.scheduleListen();
+  }
+
+  private scheduleListen() {
+    if (this.destroyed || this.reconnectTimer) {
+      return;
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.listen()
+        .then(() => this.notifications.next(null))
+        .catch((error: unknown) => {
+          this.logger.error('Failed to listen for proof status changes, retrying', error);
+          this.scheduleListen();
+        });
+    }, RECONNECT_DELAY_MS);
+  }
+}
@@ -1,7 +1,10 @@
 // Copyright 2024-2025 kzero authors & contributors
 // SPDX-License-Identifier: GNU General Public License v3.0
 
-import { Controller, Get, Logger, Query } from '@nestjs/common';
+import type { MessageEvent } from '@nestjs/common';
+import type { Observable } from 'rxjs';
+
+import { Controller, Get, Logger, Query, Sse } from '@nestjs/common';
 import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
 
 import { GetProofDto } from './dto/proof.dto.js';
@@ -20,18 +23,23 @@ export class ProofController {
     summary: 'Query ZK proof',
     description: `Query ZK proof information by ephemeral public key
 
+**Authentication**: the request must be signed by the ephemeral private key. Sign
+\`kzero:get-proof:{ephemeral_public_key}:{timestamp}\` as a Sui personal message
+(\`getProofRequestMessage\` in @kzero/common) with a current millisecond timestamp.
+
 **Query Flow**:
-1. Find the nonce by ephemeral_public_key
-2. Find proof by nonce string
-3. Extract user info from JWT
-4. Format proof data for Sui zkLogin required format
-5. Return complete proof information (including user info)
+1. Verify the timestamp is recent and the signature matches ephemeral_public_key
+2. Find the nonce by ephemeral_public_key
+3. Find proof by nonce string
+4. Extract user info from JWT
+5. Format proof data for Sui zkLogin required format
+6. Return complete proof information (including user info)
 
 **Status Values**:
 - waiting: Proof in generation queue
 - generating: Proof is being generated
 - generated: Proof generation completed
-- failed: Generation failed
+- failed: Generation failed, also on every retry (worker errors) or because it did not complete in time (PROOF_TIMEOUT)
 
 **Use Case**: Frontend calls this endpoint to get generated ZK proof after OAuth callback`,
   })
@@ -46,6 +54,21 @@ export class ProofController {
     description: 'Successfully returns proof information',
     type: ProofResponseDto,
   })
+  @ApiQuery({
+    name: 'timestamp',
+    description: 'Unix timestamp in milliseconds at signing time',
+    example: 1735689600000,
+    required: true,
+  })
+  @ApiQuery({
+    name: 'signature',
+    description: 'Serialized Sui signature (base64) of kzero:get-proof:{ephemeral_public_key}:{timestamp}',
+    required: true,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing, stale or invalid ephemeral key signature',
+  })
   @ApiResponse({
     status: 404,
     description: 'Proof record not found',
@@ -55,46 +78,69 @@ export class ProofController {
     description: 'Validation failed (ephemeral_public_key format error)',
   })
   async getProof(@Query() query: GetProofDto): Promise<ProofResponseDto> {
-    const { ephemeral_public_key } = query;
+    const { ephemeral_public_key, timestamp, signature } = query;
 
     this.logger.log(`Getting proof for ephemeral key: ${ephemeral_public_key}`);
 
+    await this.proofService.verifyRequestSignature(ephemeral_public_key, timestamp, signature);
+
     const data = await this.proofService.findProofByEphemeralKey(ephemeral_public_key);
 
-    // Extract kid from JWT header (matches tmp/auth-server logic)
-    const kid = JSON.parse(Buffer.from(data.jwt.split('.')[0], 'base64').toString()).kid as string;
-
-    // Format proof as JSON string (matches tmp/auth-server format)
-    const formattedProof =
-      data.proof && data.fields
-        ? JSON.stringify({
-            proof_points: {
-              a: data.proof.pi_a,
-              b: data.proof.pi_b,
-              c: data.proof.pi_c,
-            },
-            iss_base64_details: data.fields.iss_base64_details,
-            header: data.fields.header,
-          })
-        : null;
-
-    // Return response matching tmp/auth-server format exactly
-    return {
-      results: {
-        status: data.status,
-        public: data.public,
-        maxEpoch: Number(data.nonce.maxEpoch),
-        kid,
-        proof: formattedProof,
-        addressSeed: data.fields ? data.fields.address_seed : null,
-        provider: data.user.provider,
-        email: data.user.email ? data.user.email : null,
-        name: data.user.name,
-        picture: data.user.picture ? data.user.picture : null,
-        createdAt: data.createdAt,
-        updatedAt: data.updatedAt,
-        expiresAt: Number(data.nonce.maxEpoch),
-      },
-    };
+    return this.proofService.toProofResponse(data);
+  }
+
+  @Sse('events')
+  @ApiOperation({
+    summary: 'Stream ZK proof status',
+    description: `Stream proof status transitions as Server-Sent Events
+
+**Authentication**: same query parameters as \`GET /proof\`; the signed timestamp is only
+checked when the stream is opened.
+
+**Events** (default \`message\` type, JSON data):
+- \`{ "status": "waiting" }\` / \`{ "status": "generating" }\`: the current status, then every transition
+- final event, once the status is \`generated\` or \`failed\`: the same payload as \`GET /proof\`,
+  after which the stream is closed
+
+Transitions are pushed from database change notifications, no polling is needed.
+No event is sent until the login completed and the proof was requested.`,
+  })
+  @ApiQuery({
+    name: 'ephemeral_public_key',
+    description: 'Ephemeral public key (hexadecimal format with 0x prefix)',
+    example: '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+    required: true,
+  })
+  @ApiQuery({
+    name: 'timestamp',
+    description: 'Unix timestamp in milliseconds at signing time',
+    example: 1735689600000,
+    required: true,
+  })
+  @ApiQuery({
+    name: 'signature',
+    description: 'Serialized Sui signature (base64) of kzero:get-proof:{ephemeral_public_key}:{timestamp}',
+    required: true,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'text/event-stream of status events, the final one shaped like ProofResponseDto',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing, stale or invalid ephemeral key signature',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Nonce not found for the ephemeral public key',
+  })
+  async streamProofEvents(@Query() query: GetProofDto): Promise<Observable<MessageEvent>> {
+    const { ephemeral_public_key, timestamp, signature } = query;
+
+    this.logger.log(`Streaming proof events for ephemeral key: ${ephemeral_public_key}`);
+
+    await this.proofService.verifyRequestSignature(ephemeral_public_key, timestamp, signature);
+
+    return this.proofService.streamProofEvents(ephemeral_public_key);
   }
 }
@@ -6,11 +6,12 @@ import { Module } from '@nestjs/common';
 import { PrismaModule } from '../prisma/prisma.module.js';
 import { ProofController } from './proof.controller.js';
 import { ProofService } from './proof.service.js';
+import { ProofEventsService } from './proof-events.service.js';
 
 @Module({
   imports: [PrismaModule],
   controllers: [ProofController],
-  providers: [ProofService],
-  exports: [ProofService],
+  providers: [ProofEventsService, ProofService],
+  exports: [ProofEventsService, ProofService],
 })
 export class ProofModule {}
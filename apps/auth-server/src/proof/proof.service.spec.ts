@@ -0,0 +1,170 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { MessageEvent } from '@nestjs/common';
+import type { ConfigService } from '@nestjs/config';
+import type { AuthServerConfig } from '../config/config.interface.js';
+import type { PrismaService } from '../prisma/prisma.service.js';
+import type { ProofResponseDto } from './dto/proof-response.dto.js';
+import type { ProofEventsService } from './proof-events.service.js';
+
+import { NotFoundException } from '@nestjs/common';
+import { firstValueFrom, Subject, toArray } from 'rxjs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ProofService } from './proof.service.js';
+
+const EPHEMERAL_PUBLIC_KEY = '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+
+const base64url = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const JWT = `${base64url({ alg: 'RS256', kid: 'key-1' })}.${base64url({ iss: 'https://accounts.google.com', aud: 'client-id', sub: 'user-sub' })}.signature`;
+
+const proofRow = (status: string, errorCode: string | null = null) => ({
+  id: 'proof-id',
+  nonce: 'nonce',
+  jwt: JWT,
+  inputs: null,
+  fields: status === 'generated' ? { address_seed: '42', iss_base64_details: 'iss', header: 'header' } : null,
+  proof: status === 'generated' ? { pi_a: ['1'], pi_b: [['2']], pi_c: ['3'] } : null,
+  public: null,
+  status,
+  errorCode,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('ProofService', () => {
+  let prisma: Record<'nonce' | 'proof' | 'user', Record<'findUnique', ReturnType<typeof vi.fn>>>;
+  let changes: Subject<void>;
+  let events: Record<'changes', ReturnType<typeof vi.fn>>;
+  let service: ProofService;
+
+  beforeEach(() => {
+    prisma = {
+      nonce: {
+        findUnique: vi.fn().mockResolvedValue({ nonce: 'nonce', maxEpoch: 514n, maxEpochExpiresAt: null }),
+      },
+      proof: { findUnique: vi.fn() },
+      user: {
+        findUnique: vi.fn().mockResolvedValue({ provider: 'google', email: null, name: 'Alice', picture: null }),
+      },
+    };
+    changes = new Subject();
+    events = { changes: vi.fn(() => changes) };
+
+    service = new ProofService(
+      prisma as unknown as PrismaService,
+      { get: () => 42 } as unknown as ConfigService<AuthServerConfig, true>,
+      events as unknown as ProofEventsService,
+    );
+  });
+
+  describe('streamProofEvents', () => {
+    it('streams status transitions and ends with the full proof response', async () => {
+      prisma.proof.findUnique
+        .mockResolvedValueOnce(proofRow('waiting'))
+        .mockResolvedValueOnce(proofRow('generating'))
+        .mockResolvedValueOnce(proofRow('generated'));
+
+      const stream = await service.streamProofEvents(EPHEMERAL_PUBLIC_KEY);
+      const events = firstValueFrom(stream.pipe(toArray()));
+
+      await vi.waitFor(() => expect(prisma.proof.findUnique).toHaveBeenCalledTimes(1));
+      changes.next();
+      await vi.waitFor(() => expect(prisma.proof.findUnique).toHaveBeenCalledTimes(2));
+      changes.next();
+
+      const [waiting, generating, generated] = (await events) as MessageEvent[];
+
+      expect(waiting.data).toEqual({ status: 'waiting' });
+      expect(generating.data).toEqual({ status: 'generating' });
+      expect(generated.data).toMatchObject({
+        results: {
+          status: 'generated',
+          kid: 'key-1',
+          addressSeed: '42',
+          address: '0x93a40cc99eac4dccf9bb61d8434cae01416db47b1ad31abd2ebdf6bdddbef992',
+          ss58Address: '5FQHdSyMURJkbCnqtKLWy4iKXCD84Nrx7MvCTT5pX57pbrDZ',
+          maxEpoch: 514,
+          name: 'Alice',
+        },
+      });
+      expect((generated.data as ProofResponseDto).results.zkLoginInputs).toEqual({
+        proofPoints: { a: ['1'], b: [['2']], c: ['3'] },
+        issBase64Details: { value: 'yJpc3MiOiJodHRwczovL2FjY291bnRzLmdvb2dsZS5jb20iLC', indexMod4: 1 },
+        headerBase64: JWT.split('.')[0],
+        addressSeed: '42',
+      });
+    });
+
+    it('waits for the proof to be requested', async () => {
+      prisma.proof.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(proofRow('failed'));
+
+      const stream = await service.streamProofEvents(EPHEMERAL_PUBLIC_KEY);
+      const events = firstValueFrom(stream.pipe(toArray()));
+
+      await vi.waitFor(() => expect(prisma.proof.findUnique).toHaveBeenCalledTimes(1));
+      changes.next();
+
+      await expect(events).resolves.toEqual([{ data: expect.objectContaining({ results: expect.anything() }) }]);
+    });
+
+    it('follows the ephemeral key when its pending nonce is replaced', async () => {
+      prisma.nonce.findUnique
+        .mockResolvedValueOnce({ nonce: 'replaced-nonce', maxEpoch: 514n, maxEpochExpiresAt: null })
+        .mockResolvedValue({ nonce: 'nonce', maxEpoch: 514n, maxEpochExpiresAt: null });
+      prisma.proof.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(proofRow('generated'));
+
+      const stream = await service.streamProofEvents(EPHEMERAL_PUBLIC_KEY);
+      const result = firstValueFrom(stream.pipe(toArray()));
+
+      expect(events.changes).toHaveBeenCalledWith(EPHEMERAL_PUBLIC_KEY);
+
+      await vi.waitFor(() => expect(prisma.proof.findUnique).toHaveBeenCalledTimes(1));
+      changes.next();
+
+      await expect(result).resolves.toEqual([
+        { data: expect.objectContaining({ results: expect.objectContaining({ status: 'generated' }) }) },
+      ]);
+      expect(prisma.proof.findUnique).toHaveBeenLastCalledWith({ where: { nonce: 'nonce' } });
+    });
+
+    it('skips notifications that do not change the status', async () => {
+      prisma.proof.findUnique
+        .mockResolvedValueOnce(proofRow('generating'))
+        .mockResolvedValueOnce(proofRow('generating'))
+        .mockResolvedValueOnce(proofRow('failed'));
+
+      const stream = await service.streamProofEvents(EPHEMERAL_PUBLIC_KEY);
+      const events = firstValueFrom(stream.pipe(toArray()));
+
+      await vi.waitFor(() => expect(prisma.proof.findUnique).toHaveBeenCalledTimes(1));
+      changes.next();
+      await vi.waitFor(() => expect(prisma.proof.findUnique).toHaveBeenCalledTimes(2));
+      changes.next();
+
+      expect((await events).map(({ data }) => (data as { status?: string }).status ?? 'final')).toEqual([
+        'generating',
+        'final',
+      ]);
+    });
+
+    it('rejects an unknown ephemeral key with 404', async () => {
+      prisma.nonce.findUnique.mockResolvedValue(null);
+
+      await expect(service.streamProofEvents(EPHEMERAL_PUBLIC_KEY)).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('toProofResponse', () => {
+    it('reports a dead proof as failed with its error code', () => {
+      const response = service.toProofResponse({
+        ...proofRow('dead', 'PROOF_TIMEOUT'),
+        nonce: { maxEpoch: 514n },
+        user: { provider: 'google', email: null, name: 'Alice', picture: null },
+      } as unknown as Parameters<ProofService['toProofResponse']>[0]);
+
+      expect(response.results).toMatchObject({ status: 'failed', errorCode: 'PROOF_TIMEOUT', proof: null });
+    });
+  });
+});
@@ -1,6 +1,10 @@
 // Copyright 2024-2025 kzero authors & contributors
 // SPDX-License-Identifier: GNU General Public License v3.0
 
+import type { MessageEvent } from '@nestjs/common';
+import type { Observable } from 'rxjs';
+import type { AuthServerConfig } from '../config/config.interface.js';
+import type { ProofResponseDto } from './dto/proof-response.dto.js';
 import type {
   Groth16Proof,
   NonceEntity,
@@ -11,17 +15,62 @@ import type {
   ZKLoginInput,
 } from './types/proof.types.js';
 
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { createDecoder } from 'fast-jwt';
+import { catchError, concatMap, distinctUntilChanged, filter, map, merge, of, takeWhile } from 'rxjs';
+
+import {
+  computeZkLoginAddress,
+  computeZkLoginSs58Address,
+  getZkLoginInputs,
+  verifyProofRequestSignature,
+} from '@kzero/common';
 
 import { PrismaService } from '../prisma/prisma.service.js';
+import { ProofEventsService } from './proof-events.service.js';
+
+/**
+ * Statuses after which a proof no longer changes
+ */
+const FINAL_STATUSES: ProofEntity['status'][] = ['generated', 'failed', 'dead'];
+
+type ProofWithRelations = Awaited<ReturnType<ProofService['findProofByEphemeralKey']>>;
 
 @Injectable()
 export class ProofService {
   private readonly logger = new Logger(ProofService.name);
   private readonly jwtDecoder = createDecoder();
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService<AuthServerConfig, true>,
+    private readonly events: ProofEventsService,
+  ) {}
+
+  /**
+   * Verify that a proof request was signed by the ephemeral private key
+   *
+   * The proof and the user's PII are only returned to the holder of the ephemeral key,
+   * who proves it by signing a recent timestamp.
+   *
+   * @param ephemeralPublicKey - Ephemeral public key (hex string)
+   * @param timestamp - Unix timestamp in milliseconds the request was signed at
+   * @param signature - Serialized Sui signature of the request message
+   * @throws UnauthorizedException if the timestamp is stale or the signature is invalid
+   */
+  async verifyRequestSignature(ephemeralPublicKey: string, timestamp: number, signature: string) {
+    const maxAgeMs = this.config.get('proof.signatureMaxAgeSeconds', { infer: true }) * 1000;
+
+    if (Math.abs(Date.now() - timestamp) > maxAgeMs) {
+      throw new UnauthorizedException('Signature timestamp is expired or in the future');
+    }
+
+    if (!(await verifyProofRequestSignature(ephemeralPublicKey as `0x${string}`, timestamp, signature))) {
+      this.logger.warn(`Invalid proof request signature for ephemeralPublicKey: ${ephemeralPublicKey}`);
+      throw new UnauthorizedException('Invalid signature for the ephemeral public key');
+    }
+  }
 
   /**
    * Find proof by ephemeral public key
@@ -58,17 +107,19 @@ export class ProofService {
       throw new NotFoundException('Proof not found for the given nonce');
     }
 
-    // Step 3: Extract sub from JWT payload
+    // Step 3: Extract the user identity from JWT payload
     const payload = this.jwtDecoder(proof.jwt);
+    const iss = payload.iss as string;
+    const aud = (Array.isArray(payload.aud) ? payload.aud[0] : payload.aud) as string;
     const sub = payload.sub as string;
 
     if (!sub) {
       throw new NotFoundException('Invalid JWT: missing sub claim');
     }
 
-    // Step 4: Find user by sub
+    // Step 4: Find user by issuer, audience and sub
     const user = await this.prisma.user.findUnique({
-      where: { sub },
+      where: { iss_aud_sub: { iss, aud, sub } },
       select: {
         id: true,
         sub: true,
@@ -103,4 +154,109 @@ export class ProofService {
       user: user as UserEntity,
     };
   }
+
+  /**
+   * Stream the status transitions of the proof for an ephemeral key
+   *
+   * Emits the current status first, then one event per transition, driven by proof
+   * status notifications. Intermediate events carry `{ status }`, the final event
+   * (generated or failed) carries the full proof response and completes the stream.
+   *
+   * @param ephemeralPublicKey - Ephemeral public key (hex string)
+   * @returns Server-Sent Events stream
+   * @throws NotFoundException if no nonce exists for the ephemeral key
+   */
+  async streamProofEvents(ephemeralPublicKey: string): Promise<Observable<MessageEvent>> {
+    const nonce = await this.prisma.nonce.findUnique({ where: { ephemeralPublicKey } });
+
+    if (!nonce) {
+      throw new NotFoundException('Nonce not found for the given ephemeral public key');
+    }
+
+    // Subscribe to changes before the first read so no transition is missed. Keyed on the
+    // ephemeral key, so the stream follows a nonce replaced by a new initiation
+    return merge(of(undefined), this.events.changes(ephemeralPublicKey)).pipe(
+      concatMap(() =>
+        this.findProofByEphemeralKey(ephemeralPublicKey).catch((error: unknown) => {
+          // The proof row is created when the login completes
+          if (error instanceof NotFoundException) {
+            return null;
+          }
+
+          throw error;
+        }),
+      ),
+      filter((data): data is ProofWithRelations => data !== null),
+      distinctUntilChanged((previous, current) => previous.status === current.status),
+      takeWhile((data) => !FINAL_STATUSES.includes(data.status), true),
+      map((data) =>
+        FINAL_STATUSES.includes(data.status) ? { data: this.toProofResponse(data) } : { data: { status: data.status } },
+      ),
+      catchError((error: unknown) => {
+        this.logger.error(`Proof event stream failed for ephemeralPublicKey: ${ephemeralPublicKey}`, error);
+        throw error;
+      }),
+    );
+  }
+
+  /**
+   * Format a proof for the API response
+   *
+   * Shared by `GET /proof` and the final `GET /proof/events` event.
+   *
+   * @param data - Proof with its nonce and user, from findProofByEphemeralKey
+   * @returns Proof response in the Sui zkLogin format
+   */
+  toProofResponse(data: ProofWithRelations): ProofResponseDto {
+    const ss58Prefix = this.config.get('address.ss58Prefix', { infer: true });
+    const iss = this.jwtDecoder(data.jwt).iss as string;
+
+    // Extract kid from JWT header (matches tmp/auth-server logic)
+    const kid = JSON.parse(Buffer.from(data.jwt.split('.')[0], 'base64').toString()).kid as string;
+
+    // Format proof as JSON string (matches tmp/auth-server format)
+    const formattedProof =
+      data.proof && data.fields
+        ? JSON.stringify({
+            proof_points: {
+              a: data.proof.pi_a,
+              b: data.proof.pi_b,
+              c: data.proof.pi_c,
+            },
+            iss_base64_details: data.fields.iss_base64_details,
+            header: data.fields.header,
+          })
+        : null;
+
+    // Return response matching tmp/auth-server format exactly
+    return {
+      results: {
+        // dead is internal to the retry queue, clients only know failed
+        status: data.status === 'dead' ? 'failed' : data.status,
+        errorCode: data.errorCode,
+        public: data.public,
+        maxEpoch: Number(data.nonce.maxEpoch),
+        kid,
+        proof: formattedProof,
+        zkLoginInputs:
+          data.proof && data.fields
+            ? getZkLoginInputs({ jwt: data.jwt, proof: data.proof, addressSeed: data.fields.address_seed })
+            : null,
+        addressSeed: data.fields ? data.fields.address_seed : null,
+        address: data.fields ? computeZkLoginAddress(data.fields.address_seed, iss) : null,
+        ss58Address:
+          data.fields && ss58Prefix !== undefined
+            ? computeZkLoginSs58Address(data.fields.address_seed, iss, ss58Prefix)
+            : null,
+        provider: data.user.provider,
+        email: data.user.email ? data.user.email : null,
+        name: data.user.name,
+        picture: data.user.picture ? data.user.picture : null,
+        createdAt: data.createdAt,
+        updatedAt: data.updatedAt,
+        // Nonces created before epoch providers only have the millisecond-timestamp maxEpoch
+        expiresAt: data.nonce.maxEpochExpiresAt?.getTime() ?? Number(data.nonce.maxEpoch),
+      },
+    };
+  }
 }
@@ -48,7 +48,8 @@ export interface ProofEntity {
   fields: SuiProofFields | null;
   proof: Groth16Proof | null;
   public: PublicSignals | null;
-  status: 'waiting' | 'generating' | 'generated' | 'failed';
+  status: 'waiting' | 'generating' | 'generated' | 'failed' | 'dead';
+  errorCode: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -61,8 +62,12 @@ export interface NonceEntity {
   ephemeralPublicKey: string;
   nonce: string;
   maxEpoch: bigint;
+  maxEpochExpiresAt: Date | null;
   randomness: string;
   authState: string;
+  codeVerifier: string | null;
+  consumedAt: Date | null;
+  expiresAt: Date;
   createdAt: Date;
 }
 
@@ -75,9 +80,9 @@ export interface UserEntity {
   email: string | null;
   name: string;
   picture: string | null;
-  provider: 'google' | 'twitter' | 'github';
-  tokenType: string;
-  accessToken: string;
+  provider: 'google' | 'twitter' | 'github' | 'oidc';
+  tokenType: string | null;
+  accessToken: string | null;
   refreshToken: string | null;
   idToken: string | null;
   expiresIn: number;
@@ -0,0 +1,61 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { SaltRequest } from './salt-provider.interface.js';
+
+import { describe, expect, it } from 'vitest';
+
+import { isFieldSizedSalt } from '@kzero/common';
+
+import { HkdfSaltProvider } from './hkdf.provider.js';
+
+const MASTER_SEED = 'test-master-seed-0123456789abcdef0123456789';
+
+const REQUEST: SaltRequest = {
+  jwt: 'header.payload.signature',
+  provider: 'google',
+  iss: 'https://accounts.google.com',
+  aud: 'client-id',
+  sub: '1234567890',
+};
+
+describe('HkdfSaltProvider', () => {
+  const provider = new HkdfSaltProvider(MASTER_SEED);
+
+  it('returns the same salt for the same (iss, aud, sub)', async () => {
+    const salt = await provider.getSalt(REQUEST);
+
+    await expect(provider.getSalt({ ...REQUEST })).resolves.toBe(salt);
+    await expect(new HkdfSaltProvider(MASTER_SEED).getSalt(REQUEST)).resolves.toBe(salt);
+  });
+
+  it('returns a different salt when iss, aud or sub changes', async () => {
+    const salts = await Promise.all([
+      provider.getSalt(REQUEST),
+      provider.getSalt({ ...REQUEST, iss: 'https://issuer.example.com' }),
+      provider.getSalt({ ...REQUEST, aud: 'other-client-id' }),
+      provider.getSalt({ ...REQUEST, sub: '1234567891' }),
+    ]);
+
+    expect(new Set(salts).size).toBe(salts.length);
+  });
+
+  it('keeps the aud and sub boundary unambiguous', async () => {
+    await expect(provider.getSalt({ ...REQUEST, aud: 'ab', sub: 'c' })).resolves.not.toBe(
+      await provider.getSalt({ ...REQUEST, aud: 'a', sub: 'bc' }),
+    );
+  });
+
+  it('returns a different salt for another master seed', async () => {
+    await expect(new HkdfSaltProvider(`${MASTER_SEED}-rotated`).getSalt(REQUEST)).resolves.not.toBe(
+      await provider.getSalt(REQUEST),
+    );
+  });
+
+  it('returns a field-sized 16-byte base64 salt', async () => {
+    const salt = await provider.getSalt(REQUEST);
+
+    expect(Buffer.from(salt, 'base64')).toHaveLength(16);
+    expect(isFieldSizedSalt(salt)).toBe(true);
+  });
+});
@@ -0,0 +1,33 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { SaltProvider, SaltRequest } from './salt-provider.interface.js';
+
+import { hkdfSync } from 'node:crypto';
+
+/**
+ * Salt length in bytes (128 bits, as used by zkLogin salt services)
+ */
+const SALT_LENGTH = 16;
+
+/**
+ * Deterministic salt derived from a master seed
+ *
+ * salt = HKDF-SHA256(ikm = master seed, salt = iss, info = JSON [aud, sub], 16 bytes)
+ *
+ * The same (iss, aud, sub) always gets the same salt, so zkLogin addresses are
+ * reproducible without a separate salt server. Rotating the master seed changes
+ * every user's address.
+ */
+export class HkdfSaltProvider implements SaltProvider {
+  readonly name = 'hkdf';
+
+  constructor(private readonly masterSeed: string) {}
+
+  getSalt({ iss, aud, sub }: SaltRequest): Promise<string> {
+    // JSON encoding keeps the (aud, sub) boundary unambiguous
+    const salt = hkdfSync('sha256', this.masterSeed, iss, JSON.stringify([aud, sub]), SALT_LENGTH);
+
+    return Promise.resolve(Buffer.from(salt).toString('base64'));
+  }
+}
@@ -0,0 +1,19 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { SaltProvider } from './salt-provider.interface.js';
+
+import { randomBytes } from 'node:crypto';
+
+/**
+ * Random salt per login (development only)
+ *
+ * The user's address changes on every login; use the hkdf provider for stable dev addresses.
+ */
+export class RandomSaltProvider implements SaltProvider {
+  readonly name = 'random';
+
+  getSalt(): Promise<string> {
+    return Promise.resolve(randomBytes(16).toString('base64'));
+  }
+}
@@ -0,0 +1,154 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { AxiosResponse } from 'axios';
+import type { MockInstance } from 'vitest';
+import type { RemoteSaltProviderOptions } from './remote.provider.js';
+import type { SaltRequest } from './salt-provider.interface.js';
+
+import axios, { AxiosError } from 'axios';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { RemoteSaltProvider } from './remote.provider.js';
+
+vi.mock('node:timers/promises', () => ({ setTimeout: vi.fn(() => Promise.resolve()) }));
+
+const NOW = 1735689600000;
+const SALT = 'c2FsdA==';
+
+const OPTIONS: RemoteSaltProviderOptions = {
+  serverUrl: 'https://salt.example.com',
+  timeoutMs: 1000,
+  retries: 2,
+  retryDelayMs: 100,
+  circuitBreakerThreshold: 2,
+  circuitBreakerResetMs: 30000,
+};
+
+const REQUEST: SaltRequest = {
+  jwt: 'header.payload.signature',
+  provider: 'google',
+  iss: 'https://accounts.google.com',
+  aud: 'client-id',
+  sub: '1234567890',
+};
+
+const success = (salt = SALT) => ({ data: { status: 'success', salt } });
+const serverError = () =>
+  new AxiosError('Service Unavailable', 'ERR_BAD_RESPONSE', undefined, undefined, { status: 503 } as AxiosResponse);
+const timeout = () => new AxiosError('timeout exceeded', 'ECONNABORTED');
+
+describe('RemoteSaltProvider', () => {
+  let post: MockInstance<typeof axios.post>;
+  let provider: RemoteSaltProvider;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+    post = vi.spyOn(axios, 'post');
+    provider = new RemoteSaltProvider(OPTIONS);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.mocked(sleep).mockClear();
+  });
+
+  describe('retries', () => {
+    it('retries transient failures with exponential backoff', async () => {
+      post.mockRejectedValueOnce(timeout()).mockRejectedValueOnce(serverError()).mockResolvedValueOnce(success());
+
+      await expect(provider.getSalt(REQUEST)).resolves.toBe(SALT);
+      expect(post).toHaveBeenCalledTimes(3);
+      expect(post).toHaveBeenCalledWith(
+        `${OPTIONS.serverUrl}/get_salt`,
+        { message: REQUEST.jwt, provider: REQUEST.provider },
+        expect.objectContaining({ timeout: OPTIONS.timeoutMs }),
+      );
+      expect(vi.mocked(sleep).mock.calls.map(([delay]) => delay)).toEqual([100, 200]);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+      post.mockRejectedValue(serverError());
+
+      await expect(provider.getSalt(REQUEST)).rejects.toMatchObject({ code: 'SALT_UNAVAILABLE' });
+      expect(post).toHaveBeenCalledTimes(OPTIONS.retries + 1);
+    });
+
+    it('does not retry a rejected request', async () => {
+      post.mockRejectedValue(
+        new AxiosError('Bad Request', 'ERR_BAD_REQUEST', undefined, undefined, { status: 400 } as AxiosResponse),
+      );
+
+      await expect(provider.getSalt(REQUEST)).rejects.toMatchObject({ code: 'SALT_REJECTED' });
+      expect(post).toHaveBeenCalledTimes(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('opens after consecutive failed requests and fails fast', async () => {
+      post.mockRejectedValue(timeout());
+
+      for (let i = 0; i < OPTIONS.circuitBreakerThreshold; i++) {
+        await expect(provider.getSalt(REQUEST)).rejects.toMatchObject({ code: 'SALT_TIMEOUT' });
+      }
+
+      post.mockClear();
+
+      await expect(provider.getSalt(REQUEST)).rejects.toMatchObject({ code: 'SALT_CIRCUIT_OPEN' });
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it('closes when the trial request after the reset time succeeds', async () => {
+      post.mockRejectedValue(timeout());
+
+      for (let i = 0; i < OPTIONS.circuitBreakerThreshold; i++) {
+        await expect(provider.getSalt(REQUEST)).rejects.toThrow();
+      }
+
+      vi.setSystemTime(NOW + OPTIONS.circuitBreakerResetMs);
+      post.mockResolvedValue(success());
+
+      await expect(provider.getSalt(REQUEST)).resolves.toBe(SALT);
+
+      // A single failure stays below the threshold again
+      post.mockRejectedValue(timeout());
+      await expect(provider.getSalt(REQUEST)).rejects.toMatchObject({ code: 'SALT_TIMEOUT' });
+      post.mockResolvedValue(success());
+      await expect(provider.getSalt(REQUEST)).resolves.toBe(SALT);
+    });
+
+    it('opens again right away when the trial request fails', async () => {
+      post.mockRejectedValue(timeout());
+
+      for (let i = 0; i < OPTIONS.circuitBreakerThreshold; i++) {
+        await expect(provider.getSalt(REQUEST)).rejects.toThrow();
+      }
+
+      vi.setSystemTime(NOW + OPTIONS.circuitBreakerResetMs);
+
+      await expect(provider.getSalt(REQUEST)).rejects.toMatchObject({ code: 'SALT_TIMEOUT' });
+      await expect(provider.getSalt(REQUEST)).rejects.toMatchObject({ code: 'SALT_CIRCUIT_OPEN' });
+    });
+
+    it('is not opened by rejected requests', async () => {
+      post.mockResolvedValue({ data: { status: 'error', error: 'unknown issuer' } });
+
+      for (let i = 0; i < OPTIONS.circuitBreakerThreshold; i++) {
+        await expect(provider.getSalt(REQUEST)).rejects.toMatchObject({ code: 'SALT_REJECTED' });
+      }
+
+      post.mockResolvedValue(success());
+      await expect(provider.getSalt(REQUEST)).resolves.toBe(SALT);
+    });
+  });
+
+  it('rejects a salt that is not a field element', async () => {
+    post.mockResolvedValue(success('a'.repeat(40)));
+
+    await expect(provider.getSalt(REQUEST)).rejects.toMatchObject({ code: 'SALT_INVALID_RESPONSE' });
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,171 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { SaltProvider, SaltRequest } from './salt-provider.interface.js';
+
+import { Logger } from '@nestjs/common';
+import axios, { isAxiosError } from 'axios';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { z } from 'zod';
+
+import { isFieldSizedSalt } from '@kzero/common';
+
+import { SaltError } from '../salt.errors.js';
+
+/**
+ * Options of the salt server client
+ */
+export interface RemoteSaltProviderOptions {
+  serverUrl: string;
+
+  /**
+   * Timeout of a single request in milliseconds
+   */
+  timeoutMs: number;
+
+  /**
+   * Retries after the first attempt, for timeouts, network and 5xx errors
+   */
+  retries: number;
+
+  /**
+   * Delay before the first retry in milliseconds, doubled on every further retry
+   */
+  retryDelayMs: number;
+
+  /**
+   * Consecutive failed requests that open the circuit
+   */
+  circuitBreakerThreshold: number;
+
+  /**
+   * How long the circuit stays open before a trial request is let through, in milliseconds
+   */
+  circuitBreakerResetMs: number;
+}
+
+const SaltResponseSchema = z.discriminatedUnion('status', [
+  z.object({
+    status: z.literal('success'),
+    salt: z.string().refine(isFieldSizedSalt, 'Salt is not a field-sized base64 value'),
+  }),
+  z.object({
+    status: z.literal('error'),
+    error: z.string().optional(),
+  }),
+]);
+
+/**
+ * Salt from an external salt server (`POST {serverUrl}/get_salt`)
+ *
+ * Each request has a timeout and is retried with exponential backoff on transient
+ * failures. After `circuitBreakerThreshold` consecutive failures the circuit opens and
+ * requests fail fast until `circuitBreakerResetMs` has passed. The next request is a trial:
+ * success closes the circuit, failure opens it again right away.
+ */
+export class RemoteSaltProvider implements SaltProvider {
+  readonly name = 'remote';
+
+  private readonly logger = new Logger(RemoteSaltProvider.name);
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+
+  constructor(private readonly options: RemoteSaltProviderOptions) {}
+
+  async getSalt(request: SaltRequest): Promise<string> {
+    if (Date.now() < this.openUntil) {
+      throw new SaltError('SALT_CIRCUIT_OPEN', `retry after ${new Date(this.openUntil).toISOString()}`);
+    }
+
+    try {
+      const salt = await this.requestWithRetries(request);
+
+      this.consecutiveFailures = 0;
+      this.openUntil = 0;
+
+      return salt;
+    } catch (error) {
+      // A rejection is an answer from a healthy server, not a reason to open the circuit
+      if (!(error instanceof SaltError && error.code === 'SALT_REJECTED')) {
+        this.recordFailure();
+      }
+
+      throw error;
+    }
+  }
+
+  private async requestWithRetries(request: SaltRequest): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.request(request);
+      } catch (error) {
+        const retryable =
+          error instanceof SaltError && (error.code === 'SALT_TIMEOUT' || error.code === 'SALT_UNAVAILABLE');
+
+        if (!retryable || attempt >= this.options.retries) {
+          throw error;
+        }
+
+        const delay = this.options.retryDelayMs * 2 ** attempt;
+
+        this.logger.warn(`Salt request failed (${error.message}), retry ${attempt + 1} in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async request({ jwt, provider }: SaltRequest): Promise<string> {
+    let data: unknown;
+
+    try {
+      const response = await axios.post(
+        `${this.options.serverUrl}/get_salt`,
+        {
+          message: jwt,
+          provider,
+        },
+        {
+          headers: { 'Content-Type': 'application/json' },
+          timeout: this.options.timeoutMs,
+        },
+      );
+
+      data = response.data;
+    } catch (error) {
+      if (isAxiosError(error)) {
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+          throw new SaltError('SALT_TIMEOUT', `${this.options.timeoutMs}ms`);
+        }
+
+        if (error.response && error.response.status < 500) {
+          throw new SaltError('SALT_REJECTED', `HTTP ${error.response.status}`);
+        }
+      }
+
+      throw new SaltError('SALT_UNAVAILABLE', error instanceof Error ? error.message : undefined);
+    }
+
+    const result = SaltResponseSchema.safeParse(data);
+
+    if (!result.success) {
+      throw new SaltError('SALT_INVALID_RESPONSE', result.error.issues.map((issue) => issue.message).join(', '));
+    }
+
+    if (result.data.status === 'error') {
+      throw new SaltError('SALT_REJECTED', result.data.error);
+    }
+
+    return result.data.salt;
+  }
+
+  private recordFailure() {
+    this.consecutiveFailures++;
+
+    // openUntil is only set while the circuit is open or half-open (trial request)
+    if (this.openUntil > 0 || this.consecutiveFailures >= this.options.circuitBreakerThreshold) {
+      this.openUntil = Date.now() + this.options.circuitBreakerResetMs;
+      this.consecutiveFailures = 0;
+      this.logger.error(`Salt server circuit opened until ${new Date(this.openUntil).toISOString()}`);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+/**
+ * Identity a salt is requested for, taken from a verified id_token
+ */
+export interface SaltRequest {
+  /**
+   * The verified id_token JWT
+   */
+  jwt: string;
+
+  /**
+   * Name of the OAuth provider that issued the JWT
+   */
+  provider: string;
+
+  iss: string;
+  aud: string;
+  sub: string;
+}
+
+/**
+ * Source of zkLogin user salts
+ */
+export interface SaltProvider {
+  /**
+   * Provider name, as selected by `SALT_PROVIDER`
+   */
+  readonly name: string;
+
+  /**
+   * Get the salt for an identity
+   *
+   * @param request - Identity from the verified id_token
+   * @returns Base64-encoded salt value
+   * @throws Error if no salt can be produced
+   */
+  getSalt(request: SaltRequest): Promise<string>;
+}
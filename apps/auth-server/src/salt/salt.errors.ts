@@ -0,0 +1,28 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+/**
+ * Salt failure codes, stored as `Proof.errorCode` on failed proofs
+ */
+export const SALT_ERRORS = {
+  SALT_TIMEOUT: 'Salt server did not respond in time',
+  SALT_UNAVAILABLE: 'Salt server is unreachable or returned a server error',
+  SALT_CIRCUIT_OPEN: 'Salt server is failing, requests are paused',
+  SALT_REJECTED: 'Salt server rejected the request',
+  SALT_INVALID_RESPONSE: 'Salt server response is malformed or the salt is not a valid field element',
+} as const;
+
+export type SaltErrorCode = keyof typeof SALT_ERRORS;
+
+/**
+ * Error thrown when no usable salt can be produced
+ */
+export class SaltError extends Error {
+  constructor(
+    public readonly code: SaltErrorCode,
+    detail?: string,
+  ) {
+    super(detail ? `${SALT_ERRORS[code]}: ${detail}` : SALT_ERRORS[code]);
+    this.name = 'SaltError';
+  }
+}
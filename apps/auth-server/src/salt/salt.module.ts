@@ -0,0 +1,14 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { Module } from '@nestjs/common';
+
+import { PrismaModule } from '../prisma/prisma.module.js';
+import { SaltService } from './salt.service.js';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [SaltService],
+  exports: [SaltService],
+})
+export class SaltModule {}
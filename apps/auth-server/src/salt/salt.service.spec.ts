@@ -0,0 +1,93 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { ConfigService } from '@nestjs/config';
+import type { AuthServerConfig } from '../config/config.interface.js';
+import type { PrismaService } from '../prisma/prisma.service.js';
+import type { SaltRequest } from './providers/salt-provider.interface.js';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HkdfSaltProvider } from './providers/hkdf.provider.js';
+import { SaltService } from './salt.service.js';
+
+const MASTER_SEED = 'test-master-seed-0123456789abcdef0123456789';
+
+const REQUEST: SaltRequest = {
+  jwt: 'header.payload.signature',
+  provider: 'google',
+  iss: 'https://accounts.google.com',
+  aud: 'client-id',
+  sub: '1234567890',
+};
+
+const CONFIG = {
+  salt: { provider: 'hkdf', masterSeed: MASTER_SEED, version: 1, rotation: 'keep' },
+  nodeEnv: 'test',
+};
+
+interface StoredUser {
+  id: string;
+  iss: string;
+  aud: string;
+  sub: string;
+  salt: string | null;
+  saltVersion: number | null;
+}
+
+describe('SaltService', () => {
+  let users: StoredUser[];
+  let prisma: { user: Record<'findUnique' | 'update', ReturnType<typeof vi.fn>> };
+  let service: SaltService;
+
+  beforeEach(() => {
+    users = [];
+    prisma = {
+      user: {
+        findUnique: vi.fn(({ where: { iss_aud_sub } }) =>
+          Promise.resolve(
+            users.find(
+              (user) => user.iss === iss_aud_sub.iss && user.aud === iss_aud_sub.aud && user.sub === iss_aud_sub.sub,
+            ) ?? null,
+          ),
+        ),
+        update: vi.fn(({ where: { id }, data }) =>
+          Promise.resolve(Object.assign(users.find((user) => user.id === id)!, data)),
+        ),
+      },
+    };
+
+    service = new SaltService(
+      prisma as unknown as PrismaService,
+      { get: (key: keyof typeof CONFIG) => CONFIG[key] } as unknown as ConfigService<AuthServerConfig, true>,
+    );
+  });
+
+  it('returns the stored salt of the user with the same issuer, audience and subject', async () => {
+    users.push({ id: 'user-1', iss: REQUEST.iss, aud: REQUEST.aud, sub: REQUEST.sub, salt: '42', saltVersion: 1 });
+
+    await expect(service.getSalt(REQUEST)).resolves.toBe('42');
+    expect(prisma.user.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { iss_aud_sub: { iss: REQUEST.iss, aud: REQUEST.aud, sub: REQUEST.sub } } }),
+    );
+  });
+
+  it('does not serve the salt of a user with the same subject at another issuer', async () => {
+    users.push({ id: 'user-1', iss: REQUEST.iss, aud: REQUEST.aud, sub: REQUEST.sub, salt: '42', saltVersion: 1 });
+    users.push({
+      id: 'user-2',
+      iss: 'https://issuer.example.com',
+      aud: REQUEST.aud,
+      sub: REQUEST.sub,
+      salt: null,
+      saltVersion: null,
+    });
+
+    const request = { ...REQUEST, provider: 'example', iss: 'https://issuer.example.com' };
+    const salt = await service.getSalt(request);
+
+    expect(salt).not.toBe('42');
+    expect(salt).toBe(await new HkdfSaltProvider(MASTER_SEED).getSalt(request));
+    expect(users.map((user) => user.salt)).toEqual(['42', salt]);
+  });
+});
@@ -0,0 +1,117 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { AuthServerConfig } from '../config/config.interface.js';
+import type { SaltProvider, SaltRequest } from './providers/salt-provider.interface.js';
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { isFieldSizedSalt } from '@kzero/common';
+
+import { PrismaService } from '../prisma/prisma.service.js';
+import { HkdfSaltProvider } from './providers/hkdf.provider.js';
+import { RandomSaltProvider } from './providers/random.provider.js';
+import { RemoteSaltProvider } from './providers/remote.provider.js';
+import { SaltError } from './salt.errors.js';
+
+/**
+ * Salt Service
+ *
+ * Produces zkLogin user salts with the provider selected by `SALT_PROVIDER`:
+ * - remote: external salt server (`SALT_SERVER_URL`)
+ * - hkdf: derived from `SALT_MASTER_SEED`, stable per (iss, aud, sub)
+ * - random: new salt per login, development only
+ *
+ * Without `SALT_PROVIDER`, remote is used when `SALT_SERVER_URL` is set, random otherwise.
+ *
+ * Salts are stored on the user record together with `SALT_VERSION` and served on every
+ * later login, so a user's address does not change when the provider does. `SALT_ROTATION`
+ * decides whether users on an older version keep their salt or get a new one.
+ */
+@Injectable()
+export class SaltService {
+  private readonly logger = new Logger(SaltService.name);
+  private readonly provider: SaltProvider;
+  private readonly version: number;
+  private readonly rotation: 'keep' | 'migrate';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    config: ConfigService<AuthServerConfig, true>,
+  ) {
+    const { provider, serverUrl, masterSeed, version, rotation, ...client } = config.get('salt', { infer: true });
+
+    this.version = version;
+    this.rotation = rotation;
+    const nodeEnv = config.get('nodeEnv', { infer: true });
+
+    switch (provider ?? (serverUrl ? 'remote' : 'random')) {
+      case 'remote':
+        this.provider = new RemoteSaltProvider({ serverUrl: serverUrl!, ...client });
+        break;
+      case 'hkdf':
+        this.provider = new HkdfSaltProvider(masterSeed!);
+        break;
+      case 'random':
+        if (nodeEnv !== 'development') {
+          throw new Error('Random salt is only allowed in development, configure SALT_PROVIDER');
+        }
+
+        this.provider = new RandomSaltProvider();
+        break;
+    }
+
+    this.logger.log(`Using ${this.provider.name} salt provider (version ${version}, rotation ${rotation})`);
+  }
+
+  /**
+   * Get the salt for zkLogin address derivation
+   *
+   * Returns the user's stored salt when there is one, unless rotation is `migrate` and
+   * the salt predates the current version. Otherwise a salt is produced by the provider
+   * and stored on the user.
+   *
+   * @param request - Identity from the verified id_token, the user must already exist
+   * @returns Base64-encoded salt value
+   * @throws SaltError if the salt provider fails or produces a salt that is not a field element
+   */
+  async getSalt(request: SaltRequest): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { iss_aud_sub: { iss: request.iss, aud: request.aud, sub: request.sub } },
+      select: { id: true, salt: true, saltVersion: true },
+    });
+
+    if (user?.salt && (this.rotation === 'keep' || user.saltVersion === this.version)) {
+      return user.salt;
+    }
+
+    let salt: string;
+
+    try {
+      salt = await this.provider.getSalt(request);
+    } catch (error) {
+      this.logger.error(`Failed to get salt from ${this.provider.name} salt provider`, error);
+      throw error instanceof SaltError
+        ? error
+        : new SaltError('SALT_UNAVAILABLE', error instanceof Error ? error.message : undefined);
+    }
+
+    if (!isFieldSizedSalt(salt)) {
+      throw new SaltError('SALT_INVALID_RESPONSE', `${this.provider.name} salt provider`);
+    }
+
+    if (user) {
+      if (user.salt) {
+        this.logger.warn(`Migrating user ${user.id} from salt version ${user.saltVersion} to ${this.version}`);
+      }
+
+      await this.prisma.user.update({
+        where: { id: user.id },
+        data: { salt, saltVersion: this.version },
+      });
+    }
+
+    return salt;
+  }
+}
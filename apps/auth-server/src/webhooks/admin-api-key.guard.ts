@@ -0,0 +1,45 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { CanActivate, ExecutionContext } from '@nestjs/common';
+import type { Request } from 'express';
+import type { AuthServerConfig } from '../config/config.interface.js';
+
+import { ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Header carrying the admin API key
+ */
+export const ADMIN_API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Admin API Key Guard
+ *
+ * Protects the webhook admin API with the `WEBHOOK_ADMIN_API_KEY` shared secret.
+ * The API is disabled while no key is configured.
+ */
+@Injectable()
+export class AdminApiKeyGuard implements CanActivate {
+  constructor(private readonly config: ConfigService<AuthServerConfig, true>) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const adminApiKey = this.config.get('webhook.adminApiKey', { infer: true });
+
+    if (!adminApiKey) {
+      throw new ForbiddenException('Webhook admin API is disabled, set WEBHOOK_ADMIN_API_KEY');
+    }
+
+    const apiKey = context.switchToHttp().getRequest<Request>().header(ADMIN_API_KEY_HEADER);
+
+    // Compare digests so the comparison is constant-time whatever the key length
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+
+    if (!apiKey || !timingSafeEqual(digest(apiKey), digest(adminApiKey))) {
+      throw new UnauthorizedException('Invalid or missing API key');
+    }
+
+    return true;
+  }
+}
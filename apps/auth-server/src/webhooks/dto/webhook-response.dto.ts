@@ -0,0 +1,67 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Registered webhook, without its secret
+ */
+export class WebhookResponseDto {
+  @ApiProperty({ description: 'Webhook ID', type: String })
+  id!: string;
+
+  @ApiProperty({ description: 'OAuth client_id (id_token aud) whose proofs are reported', type: String })
+  audience!: string;
+
+  @ApiProperty({ description: 'Endpoint receiving the POSTed events', type: String })
+  url!: string;
+
+  @ApiProperty({ description: 'Timestamp when the webhook was registered', type: Date })
+  createdAt!: Date;
+}
+
+/**
+ * Newly registered webhook, the only response that includes the secret
+ */
+export class CreatedWebhookResponseDto extends WebhookResponseDto {
+  @ApiProperty({
+    description: 'HMAC-SHA256 signing secret, store it to verify the x-kzero-signature header',
+    type: String,
+  })
+  secret!: string;
+}
+
+/**
+ * Webhook delivery log entry
+ */
+export class WebhookDeliveryResponseDto {
+  @ApiProperty({ description: 'Delivery ID, sent as the x-kzero-delivery header', type: String })
+  id!: string;
+
+  @ApiProperty({ description: 'Nonce of the proof the event is about', type: String })
+  nonce!: string;
+
+  @ApiProperty({ description: 'Event type', enum: ['proof.generated', 'proof.failed'] })
+  event!: string;
+
+  @ApiProperty({ description: 'Delivery status', enum: ['pending', 'delivered', 'failed'] })
+  status!: string;
+
+  @ApiProperty({ description: 'Number of attempts made', type: Number })
+  attempts!: number;
+
+  @ApiProperty({ description: 'When the next attempt is due, while pending', type: Date })
+  nextAttemptAt!: Date;
+
+  @ApiProperty({ description: 'When the last attempt was made', type: Date, nullable: true })
+  lastAttemptAt!: Date | null;
+
+  @ApiProperty({ description: 'HTTP status of the last attempt', type: Number, nullable: true })
+  responseStatus!: number | null;
+
+  @ApiProperty({ description: 'Error of the last failed attempt', type: String, nullable: true })
+  lastError!: string | null;
+
+  @ApiProperty({ description: 'Timestamp when the event was recorded', type: Date })
+  createdAt!: Date;
+}
@@ -0,0 +1,53 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, IsUrl, MinLength } from 'class-validator';
+
+/**
+ * Webhook registration body
+ */
+export class CreateWebhookDto {
+  @ApiProperty({
+    description: 'OAuth client_id (id_token aud) whose proofs are reported to this webhook',
+    example: '1234567890-abc.apps.googleusercontent.com',
+    type: String,
+  })
+  @IsString()
+  @IsNotEmpty()
+  audience!: string;
+
+  @ApiProperty({
+    description: 'Endpoint receiving the POSTed events',
+    example: 'https://backend.example.com/kzero/webhook',
+    type: String,
+  })
+  @IsUrl({ protocols: ['https', 'http'], require_protocol: true, require_tld: false })
+  url!: string;
+
+  @ApiProperty({
+    description: 'HMAC-SHA256 signing secret (default: generated and returned once)',
+    example: 'whsec_0123456789abcdef0123456789abcdef',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  secret?: string;
+}
+
+/**
+ * Webhook list query parameters
+ */
+export class ListWebhooksDto {
+  @ApiProperty({
+    description: 'Only list webhooks of this OAuth audience',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  audience?: string;
+}
@@ -0,0 +1,249 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { ConfigService } from '@nestjs/config';
+import type { IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { AuthServerConfig } from '../config/config.interface.js';
+import type { PrismaService } from '../prisma/prisma.service.js';
+import type { ProofEventsService } from '../proof/proof-events.service.js';
+
+import { createServer } from 'node:http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { verifyWebhookSignature } from '@kzero/common';
+
+import { WebhookDispatcherService } from './webhook-dispatcher.service.js';
+
+const SECRET = 'whsec_0123456789abcdef';
+
+const base64url = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const JWT = `${base64url({ alg: 'RS256' })}.${base64url({ iss: 'https://accounts.google.com', aud: 'client-id', sub: 'user' })}.sig`;
+
+const CONFIG: Record<string, number> = {
+  'webhook.maxAttempts': 3,
+  'webhook.retryDelayMs': 1000,
+  'webhook.timeoutMs': 1000,
+};
+
+describe('WebhookDispatcherService', () => {
+  let server: Server;
+  let url: string;
+  let responseStatus: number;
+  let received: { headers: IncomingHttpHeaders; body: string }[];
+  let prisma: {
+    proof: Record<'findUnique' | 'findMany', ReturnType<typeof vi.fn>>;
+    nonce: Record<'findUnique', ReturnType<typeof vi.fn>>;
+    webhook: Record<'findMany', ReturnType<typeof vi.fn>>;
+    webhookDelivery: Record<'createMany' | 'findMany' | 'updateMany' | 'update', ReturnType<typeof vi.fn>>;
+  };
+  let dispatcher: WebhookDispatcherService;
+
+  const pendingDelivery = (overrides: Record<string, unknown> = {}) => ({
+    id: 'delivery-id',
+    event: 'proof.generated',
+    payload: { event: 'proof.generated', data: { nonce: 'nonce' } },
+    attempts: 0,
+    webhook: { id: 'webhook-id', url, secret: SECRET },
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responseStatus).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    responseStatus = 200;
+    received = [];
+    prisma = {
+      proof: {
+        findUnique: vi.fn().mockResolvedValue({
+          nonce: 'nonce',
+          jwt: JWT,
+          status: 'generated',
+          errorCode: null,
+          fields: { address_seed: '42' },
+        }),
+        findMany: vi.fn().mockResolvedValue([]),
+      },
+      nonce: {
+        findUnique: vi.fn().mockResolvedValue({ ephemeralPublicKey: '0xkey', maxEpoch: 514n }),
+      },
+      webhook: { findMany: vi.fn().mockResolvedValue([{ id: 'webhook-id', audience: 'client-id' }]) },
+      webhookDelivery: {
+        createMany: vi.fn().mockResolvedValue({ count: 1 }),
+        findMany: vi.fn().mockResolvedValue([]),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+        update: vi.fn(),
+      },
+    };
+
+    dispatcher = new WebhookDispatcherService(
+      prisma as unknown as PrismaService,
+      { get: (key: string) => CONFIG[key] } as unknown as ConfigService<AuthServerConfig, true>,
+      {} as ProofEventsService,
+    );
+  });
+
+  describe('recordDeliveries', () => {
+    it('records a delivery per webhook of the id_token audience', async () => {
+      await expect(dispatcher.recordDeliveries('nonce', 'generated')).resolves.toBe(1);
+
+      expect(prisma.webhook.findMany).toHaveBeenCalledWith({ where: { audience: { in: ['client-id'] } } });
+      expect(prisma.webhookDelivery.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            webhookId: 'webhook-id',
+            nonce: 'nonce',
+            event: 'proof.generated',
+            payload: expect.objectContaining({
+              data: expect.objectContaining({
+                ephemeralPublicKey: '0xkey',
+                addressSeed: '42',
+                address: '0x93a40cc99eac4dccf9bb61d8434cae01416db47b1ad31abd2ebdf6bdddbef992',
+                sub: 'user',
+              }),
+            }),
+          }),
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('ignores statuses that are not reported', async () => {
+      await expect(dispatcher.recordDeliveries('nonce', 'generating')).resolves.toBe(0);
+      expect(prisma.webhookDelivery.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconcileDeliveries', () => {
+    const completedAt = new Date(Date.now() - 5 * 60 * 1000);
+    const completedProof = { id: 'proof-id', nonce: 'nonce', jwt: JWT, status: 'generated', updatedAt: completedAt };
+
+    beforeEach(() => {
+      prisma.webhook.findMany.mockResolvedValue([
+        { id: 'webhook-id', audience: 'client-id', createdAt: new Date(completedAt.getTime() - 1000) },
+      ]);
+    });
+
+    it('records the deliveries of a completed proof the notification was missed for', async () => {
+      prisma.proof.findMany.mockResolvedValueOnce([completedProof]);
+
+      await expect(dispatcher.reconcileDeliveries()).resolves.toBe(1);
+
+      expect(prisma.webhookDelivery.createMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: [expect.objectContaining({ webhookId: 'webhook-id', nonce: 'nonce', event: 'proof.generated' })],
+        }),
+      );
+    });
+
+    it('skips proofs whose deliveries were recorded', async () => {
+      prisma.proof.findMany.mockResolvedValueOnce([completedProof]);
+      prisma.webhookDelivery.findMany.mockResolvedValueOnce([
+        { webhookId: 'webhook-id', nonce: 'nonce', event: 'proof.generated' },
+      ]);
+
+      await expect(dispatcher.reconcileDeliveries()).resolves.toBe(0);
+      expect(prisma.webhookDelivery.createMany).not.toHaveBeenCalled();
+    });
+
+    it('skips webhooks registered after the proof completed', async () => {
+      prisma.webhook.findMany.mockResolvedValue([
+        { id: 'webhook-id', audience: 'client-id', createdAt: new Date(completedAt.getTime() + 1000) },
+      ]);
+      prisma.proof.findMany.mockResolvedValueOnce([completedProof]);
+
+      await expect(dispatcher.reconcileDeliveries()).resolves.toBe(0);
+      expect(prisma.webhookDelivery.createMany).not.toHaveBeenCalled();
+    });
+
+    it('continues from where the previous run ended', async () => {
+      await dispatcher.reconcileDeliveries();
+      await dispatcher.reconcileDeliveries();
+
+      const [first, second] = prisma.proof.findMany.mock.calls.map(
+        ([{ where }]) => (where as { updatedAt: { gt: Date; lte: Date } }).updatedAt,
+      );
+
+      expect(first.lte.getTime() - first.gt.getTime()).toBe(24 * 60 * 60 * 1000);
+      expect(second.gt).toEqual(first.lte);
+    });
+  });
+
+  describe('dispatchDue', () => {
+    it('POSTs the payload with a valid signature and marks it delivered', async () => {
+      prisma.webhookDelivery.findMany.mockResolvedValue([pendingDelivery()]);
+
+      await dispatcher.dispatchDue();
+
+      expect(received).toHaveLength(1);
+      expect(received[0].headers).toMatchObject({
+        'x-kzero-event': 'proof.generated',
+        'x-kzero-delivery': 'delivery-id',
+      });
+      expect(verifyWebhookSignature(SECRET, received[0].body, received[0].headers['x-kzero-signature'] as string)).toBe(
+        true,
+      );
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-id' },
+        data: { status: 'delivered', responseStatus: 200, lastError: null },
+      });
+    });
+
+    it('schedules a retry with exponential backoff when the endpoint fails', async () => {
+      responseStatus = 500;
+      prisma.webhookDelivery.findMany.mockResolvedValue([pendingDelivery({ attempts: 1 })]);
+
+      const before = Date.now();
+
+      await dispatcher.dispatchDue();
+
+      const { data } = prisma.webhookDelivery.updateMany.mock.calls[0][0] as {
+        data: { attempts: number; nextAttemptAt: Date };
+      };
+
+      expect(data.attempts).toBe(2);
+      expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-id' },
+        data: { status: 'pending', responseStatus: 500, lastError: 'HTTP 500' },
+      });
+    });
+
+    it('gives up after the last attempt', async () => {
+      responseStatus = 500;
+      prisma.webhookDelivery.findMany.mockResolvedValue([pendingDelivery({ attempts: 2 })]);
+
+      await dispatcher.dispatchDue();
+
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'failed' }) }),
+      );
+    });
+
+    it('skips a delivery claimed by another instance', async () => {
+      prisma.webhookDelivery.findMany.mockResolvedValue([pendingDelivery()]);
+      prisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+      await dispatcher.dispatchDue();
+
+      expect(received).toHaveLength(0);
+      expect(prisma.webhookDelivery.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,339 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { Subscription } from 'rxjs';
+import type { Webhook, WebhookDelivery } from '@kzero/database';
+import type { AuthServerConfig } from '../config/config.interface.js';
+
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import axios from 'axios';
+import { createDecoder } from 'fast-jwt';
+import { filter } from 'rxjs';
+
+import { computeZkLoginAddress, retryDelay, signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from '@kzero/common';
+
+import { PrismaService } from '../prisma/prisma.service.js';
+import { ProofEventsService } from '../proof/proof-events.service.js';
+
+/**
+ * Proof statuses reported to webhooks, with their event type
+ */
+const WEBHOOK_EVENTS: Record<string, string> = {
+  generated: 'proof.generated',
+  failed: 'proof.failed',
+  // Reported as a failure, the payload status tells both apart
+  dead: 'proof.failed',
+};
+
+/**
+ * Deliveries attempted per dispatch run
+ */
+const DISPATCH_BATCH_SIZE = 50;
+
+/**
+ * Upper bound of the exponential backoff between attempts
+ */
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * How often completed proofs are checked for deliveries that were never recorded
+ */
+const RECONCILE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Time the notification path gets to record the deliveries of a completed proof
+ */
+const RECONCILE_GRACE_MS = 60 * 1000;
+
+/**
+ * How far back the first reconciliation after startup looks, covering downtime
+ */
+const RECONCILE_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Proofs checked per reconciliation query
+ */
+const RECONCILE_BATCH_SIZE = 500;
+
+/**
+ * Audiences of an id_token `aud` claim
+ */
+const toAudiences = (aud: string | string[] | undefined): string[] => (Array.isArray(aud) ? aud : aud ? [aud] : []);
+
+/**
+ * Webhook Dispatcher Service
+ *
+ * Records a delivery for every webhook of the proof's audience when a proof is
+ * generated, fails or is dead, then POSTs the signed payload until the endpoint answers 2xx.
+ * Failed attempts are retried with exponential backoff up to `WEBHOOK_MAX_ATTEMPTS`.
+ *
+ * Deliveries are unique per webhook, nonce and event, and claimed before each attempt,
+ * so several auth-server instances can run the dispatcher side by side.
+ *
+ * Notifications are only received while an instance is listening, so completed proofs are
+ * also reconciled periodically: deliveries missing for a proof that completed while no
+ * instance was running, or while the notification connection was down, are recorded then.
+ */
+@Injectable()
+export class WebhookDispatcherService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private readonly jwtDecoder = createDecoder();
+  private subscription: Subscription | null = null;
+  private dispatching = false;
+  private reconciling = false;
+  // Proofs updated up to this time were reconciled, null before the first run
+  private reconciledUntil: Date | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService<AuthServerConfig, true>,
+    private readonly events: ProofEventsService,
+  ) {}
+
+  onModuleInit() {
+    this.subscription = this.events
+      .statusChanges()
+      .pipe(filter(({ status }) => status in WEBHOOK_EVENTS))
+      .subscribe(({ nonce, status }) => {
+        this.recordDeliveries(nonce, status)
+          .then(() => this.dispatchDue())
+          .catch((error: unknown) => this.logger.error(`Failed to record webhook deliveries for ${nonce}`, error));
+      });
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Record one delivery per webhook registered for the proof's audience
+   *
+   * @param nonce - Nonce of the proof that changed
+   * @param status - The new proof status, 'generated', 'failed' or 'dead'
+   * @returns Number of deliveries recorded
+   */
+  async recordDeliveries(nonce: string, status: string): Promise<number> {
+    const event = WEBHOOK_EVENTS[status];
+    const proof = await this.prisma.proof.findUnique({ where: { nonce } });
+
+    if (!event || !proof) {
+      return 0;
+    }
+
+    const { iss, aud, sub } = this.jwtDecoder(proof.jwt) as { iss?: string; aud?: string | string[]; sub?: string };
+    const audiences = toAudiences(aud);
+    const webhooks = await this.prisma.webhook.findMany({ where: { audience: { in: audiences } } });
+
+    if (!webhooks.length) {
+      return 0;
+    }
+
+    const storedNonce = await this.prisma.nonce.findUnique({ where: { nonce } });
+    const fields = proof.fields as { address_seed?: string } | null;
+
+    const { count } = await this.prisma.webhookDelivery.createMany({
+      data: webhooks.map((webhook) => ({
+        webhookId: webhook.id,
+        nonce,
+        event,
+        payload: {
+          event,
+          createdAt: new Date().toISOString(),
+          data: {
+            nonce,
+            ephemeralPublicKey: storedNonce?.ephemeralPublicKey ?? null,
+            maxEpoch: storedNonce ? Number(storedNonce.maxEpoch) : null,
+            status: proof.status,
+            errorCode: proof.errorCode,
+            addressSeed: fields?.address_seed ?? null,
+            address: fields?.address_seed && iss ? computeZkLoginAddress(fields.address_seed, iss) : null,
+            iss: iss ?? null,
+            aud: webhook.audience,
+            sub: sub ?? null,
+          },
+        },
+      })),
+      // Every instance receives the notification, the first one records the deliveries
+      skipDuplicates: true,
+    });
+
+    this.logger.log(`Recorded ${count} ${event} webhook deliveries for nonce ${nonce}`);
+
+    return count;
+  }
+
+  /**
+   * Record the deliveries missed for proofs completed since the last run
+   *
+   * A proof is reconciled once its update is older than the grace period, so deliveries
+   * recorded from the notification are not raced, and only when a webhook registered
+   * before it completed lacks its delivery.
+   *
+   * @returns Number of deliveries recorded
+   */
+  @Interval(RECONCILE_INTERVAL_MS)
+  async reconcileDeliveries(): Promise<number> {
+    // Skip when the previous run is still reconciling
+    if (this.reconciling) {
+      return 0;
+    }
+
+    this.reconciling = true;
+
+    const until = new Date(Date.now() - RECONCILE_GRACE_MS);
+    const since = this.reconciledUntil ?? new Date(until.getTime() - RECONCILE_LOOKBACK_MS);
+    let recorded = 0;
+
+    try {
+      const webhooks = await this.prisma.webhook.findMany({ select: { id: true, audience: true, createdAt: true } });
+
+      let cursor: string | undefined;
+
+      // Without webhooks there is nothing to record
+      while (webhooks.length) {
+        const proofs = await this.prisma.proof.findMany({
+          where: { status: { in: ['generated', 'failed', 'dead'] }, updatedAt: { gt: since, lte: until } },
+          select: { id: true, nonce: true, jwt: true, status: true, updatedAt: true },
+          orderBy: { id: 'asc' },
+          take: RECONCILE_BATCH_SIZE,
+          ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        });
+
+        if (!proofs.length) {
+          break;
+        }
+
+        const deliveries = await this.prisma.webhookDelivery.findMany({
+          where: { nonce: { in: proofs.map(({ nonce }) => nonce) } },
+          select: { webhookId: true, nonce: true, event: true },
+        });
+        const existing = new Set(deliveries.map(({ webhookId, nonce, event }) => `${webhookId}:${nonce}:${event}`));
+
+        for (const proof of proofs) {
+          const event = WEBHOOK_EVENTS[proof.status];
+          const audiences = toAudiences((this.jwtDecoder(proof.jwt) as { aud?: string | string[] }).aud);
+          const missing = webhooks.some(
+            (webhook) =>
+              audiences.includes(webhook.audience) &&
+              webhook.createdAt <= proof.updatedAt &&
+              !existing.has(`${webhook.id}:${proof.nonce}:${event}`),
+          );
+
+          if (missing) {
+            recorded += await this.recordDeliveries(proof.nonce, proof.status);
+          }
+        }
+
+        cursor = proofs[proofs.length - 1].id;
+      }
+
+      this.reconciledUntil = until;
+    } catch (error) {
+      this.logger.error('Webhook delivery reconciliation failed', error);
+    } finally {
+      this.reconciling = false;
+    }
+
+    if (recorded) {
+      this.logger.warn(`Recorded ${recorded} webhook deliveries missed by proof status notifications`);
+      await this.dispatchDue();
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Attempt every delivery that is due
+   *
+   * Runs on an interval to retry failed attempts, and right after deliveries are recorded.
+   */
+  @Interval(5000)
+  async dispatchDue() {
+    // Skip when the previous run is still sending
+    if (this.dispatching) {
+      return;
+    }
+
+    this.dispatching = true;
+
+    try {
+      const due = await this.prisma.webhookDelivery.findMany({
+        where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+        include: { webhook: true },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: DISPATCH_BATCH_SIZE,
+      });
+
+      await Promise.all(due.map((delivery) => this.attempt(delivery)));
+    } catch (error) {
+      this.logger.error('Webhook dispatch failed', error);
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  /**
+   * Claim and send one delivery
+   *
+   * The next attempt is scheduled while claiming, so a crash mid-request
+   * still leads to a retry.
+   */
+  private async attempt(delivery: WebhookDelivery & { webhook: Webhook }) {
+    const attempts = delivery.attempts + 1;
+    const maxAttempts = this.config.get('webhook.maxAttempts', { infer: true });
+    const delay = retryDelay(this.config.get('webhook.retryDelayMs', { infer: true }), attempts, MAX_RETRY_DELAY_MS);
+
+    const { count } = await this.prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: 'pending', attempts: delivery.attempts },
+      data: { attempts, lastAttemptAt: new Date(), nextAttemptAt: new Date(Date.now() + delay) },
+    });
+
+    // Claimed by another instance
+    if (count === 0) {
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    let responseStatus: number | null = null;
+    let lastError: string | null = null;
+
+    try {
+      const response = await axios.post(delivery.webhook.url, body, {
+        headers: {
+          'content-type': 'application/json',
+          'x-kzero-event': delivery.event,
+          'x-kzero-delivery': delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(delivery.webhook.secret, body),
+        },
+        timeout: this.config.get('webhook.timeoutMs', { infer: true }),
+        maxRedirects: 0,
+        validateStatus: () => true,
+      });
+
+      responseStatus = response.status;
+
+      if (response.status < 200 || response.status >= 300) {
+        lastError = `HTTP ${response.status}`;
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : 'Request failed';
+    }
+
+    const status = !lastError ? 'delivered' : attempts >= maxAttempts ? 'failed' : 'pending';
+
+    await this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status, responseStatus, lastError },
+    });
+
+    if (lastError) {
+      this.logger.warn(
+        `Webhook delivery ${delivery.id} to ${delivery.webhook.url} failed (attempt ${attempts}/${maxAttempts}): ${lastError}`,
+      );
+    } else {
+      this.logger.log(`Webhook delivery ${delivery.id} delivered to ${delivery.webhook.url}`);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { Body, Controller, Delete, Get, HttpCode, Param, ParseUUIDPipe, Post, Query, UseGuards } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiSecurity, ApiTags } from '@nestjs/swagger';
+
+import { CreateWebhookDto, ListWebhooksDto } from './dto/webhook.dto.js';
+import {
+  CreatedWebhookResponseDto,
+  WebhookDeliveryResponseDto,
+  WebhookResponseDto,
+} from './dto/webhook-response.dto.js';
+import { AdminApiKeyGuard } from './admin-api-key.guard.js';
+import { WebhooksService } from './webhooks.service.js';
+
+@ApiTags('webhooks')
+@ApiSecurity('admin-api-key')
+@ApiResponse({ status: 401, description: 'Invalid or missing x-api-key header' })
+@ApiResponse({ status: 403, description: 'Webhook admin API is disabled (WEBHOOK_ADMIN_API_KEY is not set)' })
+@UseGuards(AdminApiKeyGuard)
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Register a webhook',
+    description: `Register a URL notified when a proof for an OAuth audience is generated or fails
+
+**Delivery**: \`POST\` with a JSON body \`{ event, createdAt, data }\` where \`event\` is
+\`proof.generated\` or \`proof.failed\`. Headers:
+- \`x-kzero-event\`: the event type
+- \`x-kzero-delivery\`: delivery ID, identical across retries
+- \`x-kzero-signature\`: \`t=<unix ms>,v1=<hex HMAC-SHA256 of "{t}.{body}">\`
+  (\`verifyWebhookSignature\` in @kzero/common)
+
+Any non-2xx answer or timeout is retried with exponential backoff.`,
+  })
+  @ApiResponse({ status: 201, description: 'Webhook registered', type: CreatedWebhookResponseDto })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  create(@Body() body: CreateWebhookDto): Promise<CreatedWebhookResponseDto> {
+    return this.webhooksService.create(body);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List registered webhooks' })
+  @ApiResponse({ status: 200, description: 'Registered webhooks', type: [WebhookResponseDto] })
+  list(@Query() query: ListWebhooksDto): Promise<WebhookResponseDto[]> {
+    return this.webhooksService.list(query.audience);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete a webhook and its delivery log' })
+  @ApiResponse({ status: 204, description: 'Webhook deleted' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return this.webhooksService.remove(id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'List the deliveries of a webhook, newest first' })
+  @ApiResponse({ status: 200, description: 'Delivery log', type: [WebhookDeliveryResponseDto] })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  listDeliveries(@Param('id', ParseUUIDPipe) id: string): Promise<WebhookDeliveryResponseDto[]> {
+    return this.webhooksService.listDeliveries(id);
+  }
+
+  @Post('deliveries/:id/redeliver')
+  @HttpCode(202)
+  @ApiOperation({
+    summary: 'Redeliver a webhook delivery',
+    description: 'Send a delivery again with the same payload and ID, with a fresh retry budget',
+  })
+  @ApiResponse({ status: 202, description: 'Delivery scheduled' })
+  @ApiResponse({ status: 404, description: 'Webhook delivery not found' })
+  redeliver(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return this.webhooksService.redeliver(id);
+  }
+}
@@ -0,0 +1,18 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { Module } from '@nestjs/common';
+
+import { PrismaModule } from '../prisma/prisma.module.js';
+import { ProofModule } from '../proof/proof.module.js';
+import { AdminApiKeyGuard } from './admin-api-key.guard.js';
+import { WebhookDispatcherService } from './webhook-dispatcher.service.js';
+import { WebhooksController } from './webhooks.controller.js';
+import { WebhooksService } from './webhooks.service.js';
+
+@Module({
+  imports: [PrismaModule, ProofModule],
+  controllers: [WebhooksController],
+  providers: [AdminApiKeyGuard, WebhookDispatcherService, WebhooksService],
+})
+export class WebhooksModule {}
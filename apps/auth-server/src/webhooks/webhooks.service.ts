@@ -0,0 +1,114 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { CreateWebhookDto } from './dto/webhook.dto.js';
+
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { randomBytes } from 'node:crypto';
+
+import { PrismaService } from '../prisma/prisma.service.js';
+import { WebhookDispatcherService } from './webhook-dispatcher.service.js';
+
+/**
+ * Webhook fields returned by the admin API, the secret is only returned on creation
+ */
+const WEBHOOK_SELECT = { id: true, audience: true, url: true, createdAt: true } as const;
+
+/**
+ * Webhooks Service
+ *
+ * Registration of integrator webhooks and access to their delivery log.
+ */
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly dispatcher: WebhookDispatcherService,
+  ) {}
+
+  /**
+   * Register a webhook for an OAuth audience
+   *
+   * @param dto - Audience, URL and optional secret
+   * @returns The webhook including its signing secret
+   */
+  async create({ audience, url, secret }: CreateWebhookDto) {
+    const webhook = await this.prisma.webhook.create({
+      data: { audience, url, secret: secret ?? `whsec_${randomBytes(24).toString('hex')}` },
+      select: { ...WEBHOOK_SELECT, secret: true },
+    });
+
+    this.logger.log(`Registered webhook ${webhook.id} for audience ${audience}: ${url}`);
+
+    return webhook;
+  }
+
+  /**
+   * List registered webhooks
+   *
+   * @param audience - Only list webhooks of this audience
+   */
+  async list(audience?: string) {
+    return this.prisma.webhook.findMany({
+      where: audience ? { audience } : undefined,
+      select: WEBHOOK_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Delete a webhook together with its delivery log
+   *
+   * @throws NotFoundException if the webhook does not exist
+   */
+  async remove(id: string) {
+    const { count } = await this.prisma.webhook.deleteMany({ where: { id } });
+
+    if (count === 0) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    this.logger.log(`Deleted webhook ${id}`);
+  }
+
+  /**
+   * Delivery log of a webhook, newest first
+   *
+   * @throws NotFoundException if the webhook does not exist
+   */
+  async listDeliveries(webhookId: string) {
+    const webhook = await this.prisma.webhook.findUnique({
+      where: { id: webhookId },
+      include: { deliveries: { orderBy: { createdAt: 'desc' }, omit: { payload: true, webhookId: true } } },
+    });
+
+    if (!webhook) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    return webhook.deliveries;
+  }
+
+  /**
+   * Send a delivery again, with a fresh attempt budget
+   *
+   * @throws NotFoundException if the delivery does not exist
+   */
+  async redeliver(deliveryId: string) {
+    const { count } = await this.prisma.webhookDelivery.updateMany({
+      where: { id: deliveryId },
+      data: { status: 'pending', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Webhook delivery not found');
+    }
+
+    this.logger.log(`Redelivering webhook delivery ${deliveryId}`);
+
+    // Attempt right away instead of waiting for the next interval
+    void this.dispatcher.dispatchDue();
+  }
+}
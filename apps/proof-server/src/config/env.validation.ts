@@ -1,8 +1,11 @@
 // Copyright 2024-2025 kzero authors & contributors
 // SPDX-License-Identifier: GNU General Public License v3.0
 
+import { hostname } from 'node:os';
 import { z } from 'zod';
 
+import { PROOF_TIMEOUT } from '../proof-task/proof-task.service.js';
+
 export const ProofServerConfigSchema = z.object({
   port: z.coerce.number().int().min(1).max(65535).default(3001),
 
@@ -15,6 +18,30 @@ export const ProofServerConfigSchema = z.object({
   database: z.object({
     url: z.string().min(1),
   }),
+
+  proof: z
+    .object({
+      maxAttempts: z.coerce.number().int().min(1).default(3),
+      retryDelayMs: z.coerce.number().int().min(0).default(5000),
+      maxAgeMs: z.coerce.number().int().min(1).default(1800000),
+    })
+    .superRefine((proof, ctx) => {
+      // A proof must outlive the lease of its attempt, or it dies before being retried
+      if (proof.maxAgeMs <= PROOF_TIMEOUT) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['maxAgeMs'],
+          message: `Must be greater than the proof timeout (${PROOF_TIMEOUT} ms)`,
+        });
+      }
+    }),
+
+  // Identifies this replica as the lease owner of the proofs it claims, must survive a
+  // restart so the replica recovers its own proofs
+  instanceId: z
+    .string()
+    .min(1)
+    .default(() => hostname()),
 });
 
 export type ProofServerConfig = z.infer<typeof ProofServerConfigSchema>;
@@ -28,6 +55,12 @@ export function validate(config: Record<string, unknown>) {
     database: {
       url: config.DATABASE_URL,
     },
+    proof: {
+      maxAttempts: config.PROOF_MAX_ATTEMPTS || undefined,
+      retryDelayMs: config.PROOF_RETRY_DELAY_MS || undefined,
+      maxAgeMs: config.PROOF_MAX_AGE_MS || undefined,
+    },
+    instanceId: config.INSTANCE_ID || undefined,
   };
 
   return ProofServerConfigSchema.parse(mappedConfig);
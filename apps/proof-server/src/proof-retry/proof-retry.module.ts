@@ -0,0 +1,12 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { Module } from '@nestjs/common';
+
+import { ProofRetryService } from './proof-retry.service.js';
+
+@Module({
+  providers: [ProofRetryService],
+  exports: [ProofRetryService],
+})
+export class ProofRetryModule {}
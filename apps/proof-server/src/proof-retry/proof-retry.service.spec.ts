@@ -0,0 +1,91 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { PrismaService } from '../prisma/prisma.service.js';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createConfig, createPrisma, MINUTE, NOW } from '../../test/fixtures.js';
+import { PROOF_TIMEOUT_ERROR, ProofRetryService } from './proof-retry.service.js';
+
+const WHERE = { id: { in: ['a', 'b', 'c'] }, status: 'generating' as const };
+
+describe('ProofRetryService', () => {
+  let prisma: ReturnType<typeof createPrisma>;
+  let service: ProofRetryService;
+
+  const updates = () =>
+    prisma.proof.updateMany.mock.calls.map(([{ where, data }]) => ({
+      ids: (where as { AND: [unknown, { id: { in: string[] } }] }).AND[1].id.in,
+      data: data as Record<string, unknown>,
+    }));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+
+    prisma = createPrisma();
+    service = new ProofRetryService(prisma as unknown as PrismaService, createConfig());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('requeues with a backoff doubling every attempt', async () => {
+    prisma.proof.findMany.mockResolvedValue([
+      { id: 'a', attempts: 1, createdAt: NOW },
+      { id: 'b', attempts: 2, createdAt: NOW },
+    ]);
+
+    await expect(service.retry(WHERE, 'Worker crashed')).resolves.toEqual({ requeued: 2, dead: 0 });
+
+    const [, , first, second] = updates();
+
+    expect(first).toEqual({
+      ids: ['a'],
+      data: expect.objectContaining({ status: 'waiting', lastError: 'Worker crashed', leaseOwner: null }),
+    });
+    expect(first.data.availableAt).toEqual(new Date(NOW.getTime() + 5000));
+    expect(second.ids).toEqual(['b']);
+    expect(second.data.availableAt).toEqual(new Date(NOW.getTime() + 10000));
+  });
+
+  it('marks proofs dead after the last attempt', async () => {
+    prisma.proof.findMany.mockResolvedValue([
+      { id: 'a', attempts: 2, createdAt: NOW },
+      { id: 'c', attempts: 3, createdAt: NOW },
+    ]);
+
+    await expect(service.retry(WHERE, 'Worker crashed')).resolves.toEqual({ requeued: 1, dead: 1 });
+
+    expect(updates()[0]).toEqual({
+      ids: ['c'],
+      data: expect.objectContaining({ status: 'dead', lastError: 'Worker crashed', leaseExpiresAt: null }),
+    });
+  });
+
+  it('marks proofs older than the max age dead with PROOF_TIMEOUT, whatever their attempts', async () => {
+    prisma.proof.findMany.mockResolvedValue([
+      { id: 'a', attempts: 1, createdAt: new Date(NOW.getTime() - 29 * MINUTE) },
+      { id: 'b', attempts: 1, createdAt: new Date(NOW.getTime() - 30 * MINUTE) },
+    ]);
+
+    await expect(service.retry(WHERE, 'Proof lease expired')).resolves.toEqual({ requeued: 1, dead: 1 });
+
+    const [exhausted, timedOut, requeued] = updates();
+
+    expect(exhausted.ids).toEqual([]);
+    expect(timedOut).toEqual({
+      ids: ['b'],
+      data: expect.objectContaining({ status: 'dead', errorCode: PROOF_TIMEOUT_ERROR, leaseOwner: null }),
+    });
+    expect(requeued).toEqual({ ids: ['a'], data: expect.objectContaining({ status: 'waiting' }) });
+  });
+
+  it('does nothing when no proof matches', async () => {
+    await expect(service.retry(WHERE, 'Worker crashed')).resolves.toEqual({ requeued: 0, dead: 0 });
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,128 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { Prisma } from '@kzero/database';
+import type { ProofServerConfig } from '../config/config.interface.js';
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { retryDelay } from '@kzero/common';
+
+import { PrismaService } from '../prisma/prisma.service.js';
+
+/**
+ * Upper bound of the exponential backoff between attempts (10 minutes)
+ */
+const MAX_RETRY_DELAY = 600000;
+
+/**
+ * Error code of proofs that are dead because they did not complete before PROOF_MAX_AGE_MS
+ */
+export const PROOF_TIMEOUT_ERROR = 'PROOF_TIMEOUT';
+
+export interface RetryResult {
+  requeued: number;
+  dead: number;
+}
+
+/**
+ * Proof Retry Service
+ *
+ * Decides what happens to a proof whose generation attempt failed: back to `waiting`
+ * after an exponential backoff, or `dead` once `PROOF_MAX_ATTEMPTS` attempts were made
+ * or the proof is older than PROOF_MAX_AGE_MS (with PROOF_TIMEOUT as error code): past that,
+ * the user has left the login page and the nonce is likely expired.
+ * `dead` is kept apart from `failed`, which reports errors of the login itself (salt, JWT).
+ */
+@Injectable()
+export class ProofRetryService {
+  private readonly logger = new Logger(ProofRetryService.name);
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly maxAgeMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    config: ConfigService<ProofServerConfig, true>,
+  ) {
+    this.maxAttempts = config.get('proof.maxAttempts', { infer: true });
+    this.retryDelayMs = config.get('proof.retryDelayMs', { infer: true });
+    this.maxAgeMs = config.get('proof.maxAgeMs', { infer: true });
+  }
+
+  /**
+   * Requeue or kill the proofs matching `where` after a failed attempt
+   *
+   * `where` is repeated in the updates, so a proof completed or released meanwhile is left alone.
+   *
+   * @param where - Proofs whose attempt failed, typically by ID and status 'generating'
+   * @param error - Why the attempt failed, stored as lastError
+   */
+  async retry(where: Prisma.ProofWhereInput, error: string): Promise<RetryResult> {
+    const proofs = await this.prisma.proof.findMany({
+      where,
+      select: { id: true, attempts: true, createdAt: true },
+    });
+
+    if (!proofs.length) {
+      return { requeued: 0, dead: 0 };
+    }
+
+    const now = Date.now();
+    const lease = { startedAt: null, leaseOwner: null, leaseExpiresAt: null };
+    const isTimedOut = ({ createdAt }: { createdAt: Date }) => createdAt.getTime() <= now - this.maxAgeMs;
+    const timedOut = proofs.filter(isTimedOut).map(({ id }) => id);
+    const dead = proofs.filter((proof) => !isTimedOut(proof) && proof.attempts >= this.maxAttempts).map(({ id }) => id);
+
+    // The backoff depends on the attempts made, so requeue each attempts count on its own
+    const requeueByAttempts = new Map<number, string[]>();
+
+    for (const proof of proofs) {
+      if (!isTimedOut(proof) && proof.attempts < this.maxAttempts) {
+        requeueByAttempts.set(proof.attempts, [...(requeueByAttempts.get(proof.attempts) ?? []), proof.id]);
+      }
+    }
+
+    const [killed, expired, ...requeued] = await this.prisma.$transaction([
+      this.prisma.proof.updateMany({
+        where: { AND: [where, { id: { in: dead } }] },
+        data: { status: 'dead', lastError: error, ...lease },
+      }),
+      this.prisma.proof.updateMany({
+        where: { AND: [where, { id: { in: timedOut } }] },
+        data: { status: 'dead', errorCode: PROOF_TIMEOUT_ERROR, lastError: error, ...lease },
+      }),
+      ...[...requeueByAttempts].map(([attempts, ids]) =>
+        this.prisma.proof.updateMany({
+          where: { AND: [where, { id: { in: ids } }] },
+          data: {
+            status: 'waiting',
+            lastError: error,
+            availableAt: new Date(now + retryDelay(this.retryDelayMs, attempts, MAX_RETRY_DELAY)),
+            ...lease,
+          },
+        }),
+      ),
+    ]);
+
+    const result = {
+      requeued: requeued.reduce((total, { count }) => total + count, 0),
+      dead: killed.count + expired.count,
+    };
+
+    if (killed.count) {
+      this.logger.error(`${killed.count} proof(s) dead after ${this.maxAttempts} attempts: ${error}`);
+    }
+
+    if (expired.count) {
+      this.logger.error(`${expired.count} proof(s) dead after ${this.maxAgeMs / 60000} minutes: ${error}`);
+    }
+
+    if (result.requeued) {
+      this.logger.warn(`${result.requeued} proof(s) requeued for retry: ${error}`);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,85 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { PrismaService } from '../prisma/prisma.service.js';
+import type { ProofRetryService } from '../proof-retry/proof-retry.service.js';
+import type { ProofWebsocketGateway } from '../proof-websocket/proof-websocket.gateway.js';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createConfig, createGateway, createPrisma, createRetryService, MINUTE, NOW } from '../../test/fixtures.js';
+import { ProofSweeperService } from './proof-sweeper.service.js';
+
+const EXPIRED = { status: 'generating', OR: [{ leaseExpiresAt: { lte: NOW } }, { leaseExpiresAt: null }] };
+
+describe('ProofSweeperService', () => {
+  let prisma: ReturnType<typeof createPrisma>;
+  let retryService: ReturnType<typeof createRetryService>;
+  let gateway: ReturnType<typeof createGateway>;
+  let sweeper: ProofSweeperService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+
+    prisma = createPrisma();
+    retryService = createRetryService();
+    gateway = createGateway();
+
+    sweeper = new ProofSweeperService(
+      prisma as unknown as PrismaService,
+      gateway as unknown as ProofWebsocketGateway,
+      retryService as unknown as ProofRetryService,
+      createConfig(),
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('sweepExpiredLeases', () => {
+    it('selects generating proofs whose lease expired by the current time', async () => {
+      await sweeper.sweepExpiredLeases();
+      vi.advanceTimersByTime(5 * MINUTE);
+      await sweeper.sweepExpiredLeases();
+
+      expect(prisma.proof.findMany.mock.calls.map(([{ where }]) => where)).toEqual([
+        EXPIRED,
+        {
+          status: 'generating',
+          OR: [{ leaseExpiresAt: { lte: new Date(NOW.getTime() + 5 * MINUTE) } }, { leaseExpiresAt: null }],
+        },
+      ]);
+      expect(retryService.retry).not.toHaveBeenCalled();
+    });
+
+    it('retries the expired proofs and frees their worker slots', async () => {
+      prisma.proof.findMany.mockResolvedValue([{ id: 'proof-1' }, { id: 'proof-2' }]);
+      retryService.retry.mockResolvedValue({ requeued: 1, dead: 1 });
+
+      await expect(sweeper.sweepExpiredLeases()).resolves.toEqual({ requeued: 1, dead: 1 });
+
+      expect(retryService.retry).toHaveBeenCalledWith(
+        { AND: [EXPIRED, { id: { in: ['proof-1', 'proof-2'] } }] },
+        'Proof lease expired',
+      );
+      expect(gateway.releaseTask.mock.calls).toEqual([['proof-1'], ['proof-2']]);
+    });
+  });
+
+  describe('recover', () => {
+    it('releases the proofs of this instance before their lease expires, then sweeps', async () => {
+      prisma.proof.findMany.mockResolvedValueOnce([{ id: 'orphaned' }]).mockResolvedValueOnce([{ id: 'expired' }]);
+
+      await expect(sweeper.recover()).resolves.toEqual({ requeued: 2, dead: 0 });
+
+      expect(retryService.retry).toHaveBeenNthCalledWith(
+        1,
+        { AND: [{ status: 'generating', leaseOwner: 'proof-server-1' }, { id: { in: ['orphaned'] } }] },
+        'proof-server restarted during generation',
+      );
+      expect(gateway.releaseTask.mock.calls).toEqual([['orphaned'], ['expired']]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { Prisma } from '@kzero/database';
+import type { ProofServerConfig } from '../config/config.interface.js';
+import type { RetryResult } from '../proof-retry/proof-retry.service.js';
+
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+
+import { PrismaService } from '../prisma/prisma.service.js';
+import { ProofRetryService } from '../proof-retry/proof-retry.service.js';
+import { ProofWebsocketGateway } from '../proof-websocket/proof-websocket.gateway.js';
+
+/**
+ * Interval between two sweeps of expired leases
+ */
+const SWEEP_INTERVAL = 30000;
+
+/**
+ * Proof Sweeper Service
+ *
+ * Recovers `generating` proofs whose lease expired, whichever replica claimed them,
+ * so a crashed or restarted proof-server never leaves a proof stuck. They go through
+ * ProofRetryService like any failed attempt: requeued, or dead when out of attempts or time.
+ */
+@Injectable()
+export class ProofSweeperService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ProofSweeperService.name);
+  private readonly instanceId: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly websocketGateway: ProofWebsocketGateway,
+    private readonly retryService: ProofRetryService,
+    config: ConfigService<ProofServerConfig, true>,
+  ) {
+    this.instanceId = config.get('instanceId', { infer: true });
+  }
+
+  async onApplicationBootstrap() {
+    try {
+      await this.recover();
+    } catch (error) {
+      this.logger.error('Failed to recover generating proofs on startup:', error);
+    }
+  }
+
+  /**
+   * Startup recovery pass
+   *
+   * Proofs still leased to this instance were lost with the previous process, so they
+   * are released without waiting for their lease to expire. Then expired leases are swept.
+   */
+  async recover(): Promise<RetryResult> {
+    const orphaned = await this.release(
+      { status: 'generating', leaseOwner: this.instanceId },
+      'proof-server restarted during generation',
+    );
+
+    if (orphaned.requeued || orphaned.dead) {
+      this.logger.warn(`Recovered proofs of the previous ${this.instanceId} process: ${this.describe(orphaned)}`);
+    }
+
+    const expired = await this.sweepExpiredLeases();
+
+    return { requeued: orphaned.requeued + expired.requeued, dead: orphaned.dead + expired.dead };
+  }
+
+  /**
+   * Release every generating proof whose lease expired
+   *
+   * Proofs claimed before leases existed have no expiry and are released too.
+   */
+  @Interval(SWEEP_INTERVAL)
+  async sweepExpiredLeases(): Promise<RetryResult> {
+    const result = await this.release(
+      { status: 'generating', OR: [{ leaseExpiresAt: { lte: new Date() } }, { leaseExpiresAt: null }] },
+      'Proof lease expired',
+    );
+
+    if (result.requeued || result.dead) {
+      this.logger.warn(`Swept expired proof leases: ${this.describe(result)}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Retry the proofs matching `where` and free their worker slots
+   *
+   * The retry is narrowed to the proofs found, whose slots are the ones freed.
+   */
+  private async release(where: Prisma.ProofWhereInput, error: string): Promise<RetryResult> {
+    const proofs = await this.prisma.proof.findMany({ where, select: { id: true } });
+
+    if (!proofs.length) {
+      return { requeued: 0, dead: 0 };
+    }
+
+    const ids = proofs.map(({ id }) => id);
+    const result = await this.retryService.retry({ AND: [where, { id: { in: ids } }] }, error);
+
+    // Free the slots of workers that never answered
+    ids.forEach((id) => this.websocketGateway.releaseTask(id));
+
+    return result;
+  }
+
+  private describe({ requeued, dead }: RetryResult): string {
+    return `${requeued} requeued, ${dead} dead`;
+  }
+}
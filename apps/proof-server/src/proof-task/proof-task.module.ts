@@ -3,11 +3,13 @@
 
 import { Module } from '@nestjs/common';
 
+import { ProofRetryModule } from '../proof-retry/proof-retry.module.js';
 import { ProofWebsocketModule } from '../proof-websocket/proof-websocket.module.js';
+import { ProofSweeperService } from './proof-sweeper.service.js';
 import { ProofTaskService } from './proof-task.service.js';
 
 @Module({
-  imports: [ProofWebsocketModule],
-  providers: [ProofTaskService],
+  imports: [ProofRetryModule, ProofWebsocketModule],
+  providers: [ProofTaskService, ProofSweeperService],
 })
 export class ProofTaskModule {}
@@ -0,0 +1,176 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { PrismaService } from '../prisma/prisma.service.js';
+import type { ProofWebsocketGateway } from '../proof-websocket/proof-websocket.gateway.js';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createConfig, createGateway, createPrisma, MINUTE, NOW, renderSql } from '../../test/fixtures.js';
+import { ProofTaskService } from './proof-task.service.js';
+
+/**
+ * The claim statement at `now`, as Postgres runs it
+ */
+const claimSql = (now: Date) => {
+  const at = (date: Date) => `'${date.toISOString()}'`;
+
+  return [
+    "UPDATE proofs SET status = 'generating', attempts = attempts + 1,",
+    `started_at = ${at(now)}, lease_owner = 'proof-server-1',`,
+    `lease_expires_at = ${at(new Date(now.getTime() + 10 * MINUTE))}, updated_at = ${at(now)}`,
+    // Only proofs past their retry backoff, oldest first, skipping rows another replica is claiming
+    `WHERE id = ( SELECT id FROM proofs WHERE status = 'waiting' AND available_at <= ${at(now)}`,
+    'ORDER BY created_at ASC LIMIT 1 FOR UPDATE SKIP LOCKED )',
+    'RETURNING id',
+  ].join(' ');
+};
+
+describe('ProofTaskService', () => {
+  let prisma: ReturnType<typeof createPrisma>;
+  let gateway: ReturnType<typeof createGateway>;
+  let service: ProofTaskService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+
+    prisma = createPrisma();
+    gateway = createGateway();
+
+    service = new ProofTaskService(
+      prisma as unknown as PrismaService,
+      gateway as unknown as ProofWebsocketGateway,
+      createConfig(),
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('claimNextProof', () => {
+    const worker = { id: 'worker' };
+
+    beforeEach(() => {
+      // Before and after the claim
+      gateway.getAvailableWorker.mockReturnValueOnce(worker).mockReturnValueOnce(worker);
+    });
+
+    it('claims the oldest proof past its backoff in one statement, leased to this instance', async () => {
+      await service.handleProofTasks();
+
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(renderSql(prisma.$queryRaw.mock.calls[0])).toBe(claimSql(NOW));
+    });
+
+    it('bounds the backoff and the lease by the time of each claim', async () => {
+      await service.handleProofTasks();
+      vi.advanceTimersByTime(5 * MINUTE);
+      gateway.getAvailableWorker.mockReturnValueOnce(worker);
+      await service.handleProofTasks();
+
+      expect(renderSql(prisma.$queryRaw.mock.calls[1])).toBe(claimSql(new Date(NOW.getTime() + 5 * MINUTE)));
+    });
+
+    it('sends the claimed proof to the worker', async () => {
+      prisma.$queryRaw.mockResolvedValueOnce([{ id: 'proof-id' }]);
+
+      await service.handleProofTasks();
+
+      expect(prisma.proof.findUnique).toHaveBeenCalledWith({ where: { id: 'proof-id' } });
+      expect(gateway.sendTask).toHaveBeenCalledWith(worker, { id: 'proof-id', status: 'generating', attempts: 1 });
+    });
+
+    it('leaves the worker idle when no proof is claimable', async () => {
+      await service.handleProofTasks();
+
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(prisma.proof.findUnique).not.toHaveBeenCalled();
+      expect(gateway.sendTask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('slot filling', () => {
+    it('claims proofs until every worker slot is taken', async () => {
+      const [first, second] = [{ id: 'worker-1' }, { id: 'worker-2' }];
+
+      gateway.getAvailableWorker
+        .mockReturnValueOnce(first)
+        .mockReturnValueOnce(first)
+        .mockReturnValueOnce(second)
+        .mockReturnValueOnce(second)
+        .mockReturnValueOnce(first)
+        .mockReturnValueOnce(first)
+        .mockReturnValueOnce(undefined);
+      prisma.$queryRaw
+        .mockResolvedValueOnce([{ id: 'proof-1' }])
+        .mockResolvedValueOnce([{ id: 'proof-2' }])
+        .mockResolvedValueOnce([{ id: 'proof-3' }]);
+
+      await service.handleProofTasks();
+
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(3);
+      expect(gateway.sendTask.mock.calls.map(([worker, { id }]) => [worker.id, id])).toEqual([
+        ['worker-1', 'proof-1'],
+        ['worker-2', 'proof-2'],
+        ['worker-1', 'proof-3'],
+      ]);
+    });
+
+    it('stops claiming once no proof is waiting, leaving free slots', async () => {
+      gateway.getAvailableWorker.mockReturnValue({ id: 'worker' });
+      prisma.$queryRaw.mockResolvedValueOnce([{ id: 'proof-1' }]);
+
+      await service.handleProofTasks();
+
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(2);
+      expect(gateway.sendTask).toHaveBeenCalledTimes(1);
+    });
+
+    it('requeues a claimed proof straight away when its worker disconnected during the claim', async () => {
+      gateway.getAvailableWorker.mockReturnValueOnce({ id: 'worker' });
+      prisma.$queryRaw.mockResolvedValueOnce([{ id: 'proof-1' }]);
+      prisma.proof.findUnique.mockResolvedValueOnce({ id: 'proof-1', status: 'generating', attempts: 2 });
+
+      await service.handleProofTasks();
+
+      expect(gateway.sendTask).not.toHaveBeenCalled();
+      expect(gateway.retryProof).toHaveBeenCalledWith('proof-1', 2, 'No worker left to send the proof to');
+    });
+
+    it('sends a proof claimed for a worker that disconnected to another free worker', async () => {
+      gateway.getAvailableWorker
+        .mockReturnValueOnce({ id: 'worker-1' })
+        .mockReturnValueOnce({ id: 'worker-2' })
+        .mockReturnValueOnce(undefined);
+      prisma.$queryRaw.mockResolvedValueOnce([{ id: 'proof-1' }]);
+
+      await service.handleProofTasks();
+
+      expect(gateway.sendTask).toHaveBeenCalledWith({ id: 'worker-2' }, expect.objectContaining({ id: 'proof-1' }));
+      expect(gateway.retryProof).not.toHaveBeenCalled();
+    });
+
+    it('skips a tick while the previous one is still assigning', async () => {
+      let release!: (value: { id: string }[]) => void;
+
+      gateway.getAvailableWorker.mockReturnValueOnce({ id: 'worker' });
+      prisma.$queryRaw.mockReturnValueOnce(new Promise((resolve) => (release = resolve)));
+
+      const tick = service.handleProofTasks();
+
+      await service.handleProofTasks();
+      release([]);
+      await tick;
+
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('does not claim proofs without an available worker', async () => {
+    await service.handleProofTasks();
+
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+});
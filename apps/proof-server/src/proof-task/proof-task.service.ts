@@ -1,59 +1,59 @@
 // Copyright 2024-2025 kzero authors & contributors
 // SPDX-License-Identifier: GNU General Public License v3.0
 
+import type { Proof } from '@kzero/database';
+import type { ProofServerConfig } from '../config/config.interface.js';
+
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Cron, CronExpression } from '@nestjs/schedule';
 
 import { PrismaService } from '../prisma/prisma.service.js';
 import { ProofWebsocketGateway } from '../proof-websocket/proof-websocket.gateway.js';
 
 /**
- * Proof generation timeout (600 seconds)
+ * Proof generation timeout (600 seconds), the duration of the lease taken when claiming a proof
  *
  * Typical generation: 10-30s. Adjust based on worker performance.
+ * Expired leases are handled by ProofSweeperService.
  */
-const PROOF_TIMEOUT = 600000;
+export const PROOF_TIMEOUT = 600000;
 
 /**
  * Proof Task Scheduler Service
  *
- * Polls database every 10 seconds for pending proofs and assigns them to available workers.
- * Uses FIFO ordering, 60-second timeout, and in-memory Set to prevent duplicate assignments.
+ * Every second, claims waiting proofs (oldest first) until every worker slot is taken.
+ * Workers declare how many proofs they generate at once, and the least-loaded worker is filled first.
+ * Claiming is a single `UPDATE ... FOR UPDATE SKIP LOCKED` that records this instance
+ * as lease owner, so several proof-server replicas never assign the same proof.
  */
 @Injectable()
 export class ProofTaskService {
   private readonly logger = new Logger(ProofTaskService.name);
-
-  /**
-   * Set of proof IDs currently being processed (prevents duplicate assignments)
-   */
-  private readonly processingProofs = new Set<string>();
+  private readonly instanceId: string;
+  private assigning = false;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly websocketGateway: ProofWebsocketGateway,
-  ) {}
+    config: ConfigService<ProofServerConfig, true>,
+  ) {
+    this.instanceId = config.get('instanceId', { infer: true });
+  }
 
   @Cron(CronExpression.EVERY_SECOND)
   async handleProofTasks() {
-    try {
-      // Find oldest pending proof (FIFO)
-      const proof = await this.prisma.proof.findFirst({
-        where: { status: 'waiting' },
-        orderBy: { createdAt: 'asc' },
-      });
-
-      if (!proof) {
-        return;
-      }
+    // Skip when the previous tick is still assigning
+    if (this.assigning) {
+      return;
+    }
 
-      // Prevent duplicate processing
-      if (this.processingProofs.has(proof.id)) {
-        return;
-      }
+    this.assigning = true;
 
-      // Get available worker
-      const worker = this.websocketGateway.getAvailableWorker();
+    try {
+      // Fill every free worker slot, least-loaded worker first
+      let assigned = 0;
+      let worker = this.websocketGateway.getAvailableWorker();
 
       if (!worker) {
         this.logger.debug('No available workers');
@@ -61,40 +61,70 @@ export class ProofTaskService {
         return;
       }
 
-      this.processingProofs.add(proof.id);
-
-      // Update status and send to worker
-      await this.prisma.proof.update({
-        where: { id: proof.id },
-        data: { status: 'generating' },
-      });
-
-      this.logger.log(`Assigned proof ${proof.id} to worker`);
-
-      this.websocketGateway.sendTask(worker, proof);
-
-      // Start timeout timer (mark as failed if not completed in 60s)
-      setTimeout(async () => {
-        try {
-          const currentProof = await this.prisma.proof.findUnique({
-            where: { id: proof.id },
-          });
-
-          if (currentProof && currentProof.status === 'generating') {
-            this.logger.error(`Proof ${proof.id} generation timeout (60s exceeded)`);
-            await this.prisma.proof.update({
-              where: { id: proof.id },
-              data: { status: 'failed' },
-            });
-          }
-        } catch (error) {
-          this.logger.error(`Failed to check proof timeout for ${proof.id}:`, error);
-        } finally {
-          this.processingProofs.delete(proof.id);
+      while (worker) {
+        // Claim only with a free slot, so proofs stay waiting for other replicas
+        const proof = await this.claimNextProof();
+
+        if (!proof) {
+          break;
         }
-      }, PROOF_TIMEOUT);
+
+        // Picked again, the worker may have disconnected during the claim
+        worker = this.websocketGateway.getAvailableWorker();
+
+        if (!worker) {
+          await this.websocketGateway.retryProof(proof.id, proof.attempts, 'No worker left to send the proof to');
+
+          break;
+        }
+
+        this.websocketGateway.sendTask(worker, proof);
+        this.logger.log(`Assigned proof ${proof.id} to worker`);
+        assigned++;
+        worker = this.websocketGateway.getAvailableWorker();
+      }
+
+      if (assigned > 1) {
+        this.logger.log(`Assigned ${assigned} proofs this tick`);
+      }
     } catch (error) {
       this.logger.error('Error processing proof tasks:', error);
+    } finally {
+      this.assigning = false;
     }
   }
+
+  /**
+   * Atomically move the oldest waiting proof to generating, leased to this instance
+   *
+   * Proofs waiting for a retry backoff are skipped, and the claim counts as an attempt.
+   * Rows locked by a concurrent claim are skipped rather than waited for.
+   *
+   * @returns The claimed proof, or null when no proof is waiting
+   */
+  private async claimNextProof(): Promise<Proof | null> {
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + PROOF_TIMEOUT);
+
+    const [claimed] = await this.prisma.$queryRaw<{ id: string }[]>`
+      UPDATE proofs
+      SET
+        status = 'generating',
+        attempts = attempts + 1,
+        started_at = ${now},
+        lease_owner = ${this.instanceId},
+        lease_expires_at = ${leaseExpiresAt},
+        updated_at = ${now}
+      WHERE id = (
+        SELECT id FROM proofs
+        WHERE status = 'waiting' AND available_at <= ${now}
+        ORDER BY created_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id
+    `;
+
+    return claimed ? this.prisma.proof.findUnique({ where: { id: claimed.id } }) : null;
+  }
 }
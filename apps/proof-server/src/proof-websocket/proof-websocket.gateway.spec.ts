@@ -0,0 +1,276 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { Proof } from '@kzero/database';
+import type { PrismaService } from '../prisma/prisma.service.js';
+import type { ProofRetryService } from '../proof-retry/proof-retry.service.js';
+import type { ExtendedWebSocket } from './proof-websocket.gateway.js';
+
+import { EventEmitter } from 'node:events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+
+import { WORKER_PING_INTERVAL } from '@kzero/common';
+
+import { createPrisma, createRetryService } from '../../test/fixtures.js';
+import { ProofWebsocketGateway } from './proof-websocket.gateway.js';
+
+const CONNECTION_TIMEOUT = 3 * WORKER_PING_INTERVAL;
+
+const createClient = () =>
+  Object.assign(new EventEmitter(), {
+    readyState: WebSocket.OPEN,
+    send: vi.fn(),
+    pong: vi.fn(),
+    terminate: vi.fn(),
+  }) as unknown as ExtendedWebSocket & { terminate: ReturnType<typeof vi.fn> };
+
+const proof = (id: string, attempts = 1) => ({ id, attempts, inputs: {}, fields: {} }) as unknown as Proof;
+
+const answer = (client: ExtendedWebSocket, message: Record<string, unknown>) =>
+  client.emit('message', Buffer.from(JSON.stringify(message)));
+
+describe('ProofWebsocketGateway', () => {
+  let prisma: ReturnType<typeof createPrisma>;
+  let retryService: ReturnType<typeof createRetryService>;
+  let gateway: ProofWebsocketGateway;
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    prisma = createPrisma();
+    retryService = createRetryService();
+    gateway = new ProofWebsocketGateway(
+      prisma as unknown as PrismaService,
+      retryService as unknown as ProofRetryService,
+    );
+    client = createClient();
+
+    gateway.handleConnection(client);
+    client.emit('message', Buffer.from(JSON.stringify({ task: 'register', concurrency: 2 })));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('capacity', () => {
+    it('sends a worker tasks up to its registered concurrency', () => {
+      gateway.sendTask(client, proof('proof-1'));
+
+      expect(gateway.getAvailableWorker()).toBe(client);
+
+      gateway.sendTask(client, proof('proof-2'));
+
+      expect(gateway.getAvailableWorker()).toBeNull();
+    });
+
+    it('frees a slot when the worker answers or the task is released', () => {
+      gateway.sendTask(client, proof('proof-1'));
+      gateway.sendTask(client, proof('proof-2'));
+
+      client.emit('message', Buffer.from(JSON.stringify({ task: 'proofError', proofId: 'proof-1', error: 'OOM' })));
+
+      expect(gateway.getAvailableWorker()).toBe(client);
+
+      gateway.sendTask(client, proof('proof-3'));
+      gateway.releaseTask('proof-2');
+
+      expect(gateway.getAvailableWorker()).toBe(client);
+      expect(client.inFlight).toEqual(new Map([['proof-3', 1]]));
+    });
+
+    it('picks the worker with the lowest share of its slots in use', () => {
+      const large = createClient();
+
+      gateway.handleConnection(large);
+      large.emit('message', Buffer.from(JSON.stringify({ task: 'register', concurrency: 4 })));
+
+      gateway.sendTask(client, proof('proof-1'));
+      gateway.sendTask(large, proof('proof-2'));
+
+      // 1/4 in use beats 1/2
+      expect(gateway.getAvailableWorker()).toBe(large);
+
+      gateway.sendTask(large, proof('proof-3'));
+
+      // 2/4 does not beat 1/2, the first worker found wins the tie
+      expect(gateway.getAvailableWorker()).toBe(client);
+    });
+
+    it('keeps one slot for a worker that registers an invalid concurrency', () => {
+      const other = createClient();
+
+      gateway.handleDisconnect(client);
+      gateway.handleConnection(other);
+      other.emit('message', Buffer.from(JSON.stringify({ task: 'register', concurrency: 0 })));
+
+      expect(other.capacity).toBe(1);
+
+      gateway.sendTask(other, proof('proof-1'));
+
+      expect(gateway.getAvailableWorker()).toBeNull();
+    });
+  });
+
+  describe('stale workers', () => {
+    it('requeues a failed proof only while it is still in the attempt it was sent for', async () => {
+      gateway.sendTask(client, proof('proof-1', 2));
+
+      answer(client, { task: 'proofError', proofId: 'proof-1', attempt: 2, error: 'OOM' });
+
+      await vi.waitFor(() =>
+        expect(retryService.retry).toHaveBeenCalledWith({ id: 'proof-1', status: 'generating', attempts: 2 }, 'OOM'),
+      );
+    });
+
+    it('ignores a late error of an attempt that was released', async () => {
+      gateway.sendTask(client, proof('proof-1'));
+      // Lease expired, the proof may have been claimed by another worker since
+      gateway.releaseTask('proof-1');
+
+      answer(client, { task: 'proofError', proofId: 'proof-1', attempt: 1, error: 'OOM' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(retryService.retry).not.toHaveBeenCalled();
+    });
+
+    it('ignores a late error of an earlier attempt of a proof sent again', async () => {
+      gateway.sendTask(client, proof('proof-1', 1));
+      gateway.releaseTask('proof-1');
+      gateway.sendTask(client, proof('proof-1', 2));
+
+      answer(client, { task: 'proofError', proofId: 'proof-1', attempt: 1, error: 'OOM' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(retryService.retry).not.toHaveBeenCalled();
+      expect(client.inFlight).toEqual(new Map([['proof-1', 2]]));
+    });
+  });
+
+  describe('results', () => {
+    const results = { proof: { pi_a: [] }, public: ['1'] };
+
+    it('stores a result only while the proof is still in the attempt it was sent for', async () => {
+      gateway.sendTask(client, proof('proof-1', 2));
+
+      answer(client, { task: 'generateProof', proofId: 'proof-1', attempt: 2, results });
+
+      await vi.waitFor(() =>
+        expect(prisma.proof.updateMany).toHaveBeenCalledWith({
+          where: { id: 'proof-1', status: 'generating', attempts: 2 },
+          data: {
+            status: 'generated',
+            leaseOwner: null,
+            leaseExpiresAt: null,
+            proof: results.proof,
+            public: results.public,
+          },
+        }),
+      );
+    });
+
+    it('ignores a late result of an attempt that was released', async () => {
+      gateway.sendTask(client, proof('proof-1'));
+      gateway.releaseTask('proof-1');
+
+      answer(client, { task: 'generateProof', proofId: 'proof-1', attempt: 1, results });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(prisma.proof.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('leaves a proof that is no longer generating the attempt alone', async () => {
+      // Requeued or failed by the sweeper before the worker slot was released
+      prisma.proof.updateMany.mockResolvedValue({ count: 0 });
+      gateway.sendTask(client, proof('proof-1'));
+
+      answer(client, { task: 'generateProof', proofId: 'proof-1', attempt: 1, results });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(prisma.proof.updateMany).toHaveBeenCalledTimes(1);
+      expect(retryService.retry).not.toHaveBeenCalled();
+      expect(client.inFlight.size).toBe(0);
+    });
+
+    it('requeues the attempt when the result cannot be stored', async () => {
+      prisma.proof.updateMany.mockRejectedValue(new Error('connection lost'));
+      gateway.sendTask(client, proof('proof-1'));
+
+      answer(client, { task: 'generateProof', proofId: 'proof-1', attempt: 1, results });
+
+      await vi.waitFor(() =>
+        expect(retryService.retry).toHaveBeenCalledWith(
+          { id: 'proof-1', status: 'generating', attempts: 1 },
+          'Failed to store the proof: connection lost',
+        ),
+      );
+    });
+  });
+
+  it('requeues a proof the socket fails to send', async () => {
+    client.send = vi.fn((_message: string, callback: (error?: Error) => void) =>
+      callback(new Error('WebSocket is not open')),
+    ) as unknown as typeof client.send;
+
+    gateway.sendTask(client, proof('proof-1'));
+
+    await vi.waitFor(() =>
+      expect(retryService.retry).toHaveBeenCalledWith(
+        { id: 'proof-1', status: 'generating', attempts: 1 },
+        'Failed to send the proof: WebSocket is not open',
+      ),
+    );
+    expect(client.inFlight.size).toBe(0);
+  });
+
+  it('requeues the proofs of a worker that disconnects', () => {
+    gateway.sendTask(client, proof('proof-1'));
+    gateway.sendTask(client, proof('proof-2'));
+
+    gateway.handleDisconnect(client);
+
+    expect(retryService.retry).toHaveBeenCalledWith(
+      {
+        status: 'generating',
+        OR: [
+          { id: 'proof-1', attempts: 1 },
+          { id: 'proof-2', attempts: 1 },
+        ],
+      },
+      'Worker disconnected during generation',
+    );
+    expect(gateway.getAvailableWorker()).toBeNull();
+  });
+
+  it('does not requeue proofs the worker answered', () => {
+    gateway.sendTask(client, proof('proof-1'));
+    client.emit('message', Buffer.from(JSON.stringify({ task: 'proofError', proofId: 'proof-1', error: 'OOM' })));
+    retryService.retry.mockClear();
+
+    gateway.handleDisconnect(client);
+
+    expect(retryService.retry).not.toHaveBeenCalled();
+  });
+
+  it('requeues the proofs and terminates a worker that stops pinging', () => {
+    client.emit('ping');
+    gateway.sendTask(client, proof('proof-1'));
+
+    vi.advanceTimersByTime(CONNECTION_TIMEOUT - 1);
+    client.emit('ping');
+    vi.advanceTimersByTime(CONNECTION_TIMEOUT - 1);
+
+    expect(client.terminate).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+
+    expect(client.terminate).toHaveBeenCalled();
+    expect(retryService.retry).toHaveBeenCalledWith(
+      { status: 'generating', OR: [{ id: 'proof-1', attempts: 1 }] },
+      'Worker heartbeat timed out during generation',
+    );
+    expect(gateway.getAvailableWorker()).toBeNull();
+  });
+});
@@ -9,23 +9,59 @@ import { Logger } from '@nestjs/common';
 import { OnGatewayConnection, OnGatewayDisconnect, WebSocketGateway, WebSocketServer } from '@nestjs/websockets';
 import { WebSocket } from 'ws';
 
+import { WORKER_PING_INTERVAL } from '@kzero/common';
+
 import { PrismaService } from '../prisma/prisma.service.js';
+import { ProofRetryService } from '../proof-retry/proof-retry.service.js';
 
-interface ExtendedWebSocket extends WebSocket {
+export interface ExtendedWebSocket extends WebSocket {
   isAlive: boolean;
   connectionTimer?: NodeJS.Timeout;
+  /**
+   * Proofs the worker can generate at once, as declared in its register message
+   */
+  capacity: number;
+  /**
+   * Proofs sent to the worker and not answered yet, mapped to the attempt they were sent for
+   */
+  inFlight: Map<string, number>;
+}
+
+interface RegisterMessage {
+  task: 'register';
+  concurrency: number;
 }
 
 interface ProofResultMessage {
   task: 'generateProof';
   proofId: string;
+  attempt?: number;
   results: {
     proof: Groth16Proof;
     public: PublicSignals;
   };
 }
 
-const CONNECTION_TIMEOUT = 35000;
+interface ProofErrorMessage {
+  task: 'proofError';
+  proofId: string;
+  attempt?: number;
+  error: string;
+}
+
+type WorkerMessage = RegisterMessage | ProofResultMessage | ProofErrorMessage;
+
+/**
+ * Time without a ping after which a worker is considered lost
+ *
+ * Three ping intervals, so a late or dropped ping (e.g. a worker busy generating) is tolerated.
+ */
+const CONNECTION_TIMEOUT = 3 * WORKER_PING_INTERVAL;
+
+/**
+ * Capacity of a worker until it registers (workers predating the register message)
+ */
+const DEFAULT_WORKER_CAPACITY = 1;
 
 @WebSocketGateway({ path: '/ws' })
 export class ProofWebsocketGateway implements OnGatewayConnection, OnGatewayDisconnect {
@@ -35,7 +71,10 @@ export class ProofWebsocketGateway implements OnGatewayConnection, OnGatewayDisc
   private readonly logger = new Logger(ProofWebsocketGateway.name);
   private readonly connectedWorkers = new Map<string, ExtendedWebSocket>();
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly retryService: ProofRetryService,
+  ) {}
 
   handleConnection(client: ExtendedWebSocket) {
     const workerId = this.generateWorkerId();
@@ -43,6 +82,8 @@ export class ProofWebsocketGateway implements OnGatewayConnection, OnGatewayDisc
     this.connectedWorkers.set(workerId, client);
 
     client.isAlive = true;
+    client.capacity = DEFAULT_WORKER_CAPACITY;
+    client.inFlight = new Map();
     this.logger.log(`Worker ${workerId} connected. Total workers: ${this.connectedWorkers.size}`);
 
     client.on('ping', () => {
@@ -53,29 +94,30 @@ export class ProofWebsocketGateway implements OnGatewayConnection, OnGatewayDisc
         clearTimeout(client.connectionTimer);
       }
 
+      // Restarted by every ping, so it only fires when the worker stopped pinging
       client.connectionTimer = setTimeout(() => {
-        if (!client.isAlive) {
-          this.logger.warn(`Worker ${workerId} connection timed out`);
-          client.terminate();
-        }
+        this.logger.warn(`Worker ${workerId} connection timed out`);
+        this.handleHeartbeatTimeout(workerId, client);
       }, CONNECTION_TIMEOUT);
     });
 
     client.connectionTimer = setTimeout(() => {
-      if (!client.isAlive) {
-        this.logger.warn(`Worker ${workerId} never sent initial ping`);
-        client.terminate();
-      }
+      this.logger.warn(`Worker ${workerId} never sent initial ping`);
+      this.handleHeartbeatTimeout(workerId, client);
     }, CONNECTION_TIMEOUT);
 
     client.on('message', async (message: Buffer) => {
       try {
-        const data = JSON.parse(message.toString('utf-8')) as ProofResultMessage;
+        const data = JSON.parse(message.toString('utf-8')) as WorkerMessage;
 
-        if (data.task === 'generateProof') {
-          await this.handleProofResult(data.proofId, data.results);
+        if (data.task === 'register') {
+          this.handleRegister(workerId, client, data.concurrency);
+        } else if (data.task === 'generateProof') {
+          await this.handleProofResult(data.proofId, this.settleTask(client, data), data.results);
+        } else if (data.task === 'proofError') {
+          await this.handleProofError(workerId, data.proofId, this.settleTask(client, data), data.error);
         } else {
-          this.logger.warn(`Unknown message type: ${data.task}`);
+          this.logger.warn(`Unknown message type: ${(data as { task?: string }).task}`);
         }
       } catch (error) {
         this.logger.error('Failed to parse message:', error);
@@ -94,52 +136,196 @@ export class ProofWebsocketGateway implements OnGatewayConnection, OnGatewayDisc
     if (client.connectionTimer) {
       clearTimeout(client.connectionTimer);
     }
+
+    void this.requeueInFlight(workerId ?? 'unknown', client, 'Worker disconnected during generation');
   }
 
+  /**
+   * Least-loaded connected worker with a free slot
+   *
+   * @returns The worker with the lowest in-flight to capacity ratio, or null when every worker is busy
+   */
   getAvailableWorker(): ExtendedWebSocket | null {
+    let available: ExtendedWebSocket | null = null;
+
     for (const [, client] of this.connectedWorkers.entries()) {
-      if (client.isAlive && client.readyState === WebSocket.OPEN) {
-        return client;
+      if (!client.isAlive || client.readyState !== WebSocket.OPEN || client.inFlight.size >= client.capacity) {
+        continue;
+      }
+
+      if (!available || client.inFlight.size / client.capacity < available.inFlight.size / available.capacity) {
+        available = client;
       }
     }
 
-    return null;
+    return available;
   }
 
+  /**
+   * Send a claimed proof to a worker
+   *
+   * A proof the socket fails to send is requeued straight away, instead of waiting for its lease to expire.
+   */
   sendTask(worker: ExtendedWebSocket, proof: Proof) {
     const message = JSON.stringify({
       task: 'generateProof',
       proofId: proof.id,
+      attempt: proof.attempts,
       payload: { inputs: proof.inputs, fields: proof.fields },
     });
 
-    worker.send(message);
-    this.logger.log(`Sent proof task ${proof.id} to worker`);
+    worker.inFlight.set(proof.id, proof.attempts);
+    worker.send(message, (error) => {
+      // Unless the disconnect requeued it already
+      if (error && worker.inFlight.get(proof.id) === proof.attempts) {
+        worker.inFlight.delete(proof.id);
+        void this.retryProof(proof.id, proof.attempts, `Failed to send the proof: ${error.message}`);
+      }
+    });
+    this.logger.log(`Sent proof task ${proof.id} to worker (${worker.inFlight.size}/${worker.capacity} in flight)`);
+  }
+
+  /**
+   * Free the worker slot of a proof that will not be answered (e.g. timed out)
+   *
+   * @param proofId - ID of the proof sent with sendTask
+   */
+  releaseTask(proofId: string) {
+    for (const [, client] of this.connectedWorkers.entries()) {
+      client.inFlight.delete(proofId);
+    }
   }
 
-  private async handleProofResult(proofId: string, data: { proof: Groth16Proof; public: PublicSignals }) {
+  /**
+   * Free the slot of an answered task
+   *
+   * @returns The attempt answered, or undefined for a late answer to an attempt no longer in flight
+   */
+  private settleTask(client: ExtendedWebSocket, { proofId, attempt }: ProofResultMessage | ProofErrorMessage) {
+    const sent = client.inFlight.get(proofId);
+
+    // Workers echo the attempt, older ones answer the attempt in flight
+    if (sent === undefined || (attempt !== undefined && attempt !== sent)) {
+      return undefined;
+    }
+
+    client.inFlight.delete(proofId);
+
+    return sent;
+  }
+
+  private handleRegister(workerId: string, client: ExtendedWebSocket, concurrency: number) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      this.logger.warn(`Worker ${workerId} registered invalid concurrency ${concurrency}, keeping ${client.capacity}`);
+
+      return;
+    }
+
+    client.capacity = concurrency;
+    this.logger.log(`Worker ${workerId} registered with concurrency ${concurrency}`);
+  }
+
+  private handleHeartbeatTimeout(workerId: string, client: ExtendedWebSocket) {
+    client.isAlive = false;
+    void this.requeueInFlight(workerId, client, 'Worker heartbeat timed out during generation');
+    client.terminate();
+  }
+
+  /**
+   * Requeue the proofs a lost worker was generating, instead of waiting for their lease to expire
+   *
+   * Only the attempts sent to this worker are requeued, a proof claimed again since is left alone.
+   */
+  private async requeueInFlight(workerId: string, client: ExtendedWebSocket, error: string) {
+    const inFlight = [...client.inFlight];
+
+    client.inFlight.clear();
+
+    if (!inFlight.length) {
+      return;
+    }
+
+    this.logger.warn(
+      `Requeueing ${inFlight.length} proof(s) of worker ${workerId}: ${inFlight.map(([id]) => id).join(', ')}`,
+    );
+
+    try {
+      await this.retryService.retry(
+        { status: 'generating', OR: inFlight.map(([id, attempts]) => ({ id, attempts })) },
+        error,
+      );
+    } catch (retryError) {
+      // The leases expire and the sweeper retries the proofs
+      this.logger.error(`Failed to requeue proofs of worker ${workerId}:`, retryError);
+    }
+  }
+
+  private async handleProofResult(
+    proofId: string,
+    attempt: number | undefined,
+    data: { proof: Groth16Proof; public: PublicSignals },
+  ) {
+    if (attempt === undefined) {
+      this.logger.warn(`Ignoring result of proof ${proofId}, its attempt was already released`);
+
+      return;
+    }
+
     try {
-      await this.prisma.proof.update({
-        where: { id: proofId },
+      // Guarded like retryProof, a proof requeued, failed or claimed again meanwhile is left alone
+      const { count } = await this.prisma.proof.updateMany({
+        where: { id: proofId, status: 'generating', attempts: attempt },
         data: {
           status: 'generated',
+          leaseOwner: null,
+          leaseExpiresAt: null,
           proof: data.proof as unknown as Prisma.InputJsonValue,
           public: data.public as unknown as Prisma.InputJsonValue,
         },
       });
 
+      if (count === 0) {
+        this.logger.warn(`Ignoring result of proof ${proofId}, attempt ${attempt} is no longer generating`);
+
+        return;
+      }
+
       this.logger.log(`Proof ${proofId} completed successfully`);
     } catch (error) {
       this.logger.error(`Failed to update proof ${proofId}:`, error);
 
-      try {
-        await this.prisma.proof.update({
-          where: { id: proofId },
-          data: { status: 'failed' },
-        });
-      } catch (updateError) {
-        this.logger.error(`Failed to mark proof ${proofId} as failed:`, updateError);
-      }
+      await this.retryProof(
+        proofId,
+        attempt,
+        `Failed to store the proof: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private async handleProofError(workerId: string, proofId: string, attempt: number | undefined, error: string) {
+    this.logger.warn(`Worker ${workerId} failed to generate proof ${proofId}: ${error}`);
+
+    await this.retryProof(proofId, attempt, error || 'Proof generation failed');
+  }
+
+  /**
+   * Requeue a proof after its attempt failed, or was claimed but could not be sent
+   *
+   * Guarded by the attempt the proof was sent for: a late answer of a worker whose attempt
+   * was already released (and the proof possibly claimed by another worker) is ignored.
+   */
+  async retryProof(proofId: string, attempt: number | undefined, error: string) {
+    if (attempt === undefined) {
+      this.logger.warn(`Ignoring failure of proof ${proofId}, its attempt was already released`);
+
+      return;
+    }
+
+    try {
+      await this.retryService.retry({ id: proofId, status: 'generating', attempts: attempt }, error);
+    } catch (retryError) {
+      // The lease expires and the sweeper retries the proof
+      this.logger.error(`Failed to requeue proof ${proofId}:`, retryError);
     }
   }
 
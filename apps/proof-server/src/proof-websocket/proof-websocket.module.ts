@@ -3,9 +3,11 @@
 
 import { Module } from '@nestjs/common';
 
+import { ProofRetryModule } from '../proof-retry/proof-retry.module.js';
 import { ProofWebsocketGateway } from './proof-websocket.gateway.js';
 
 @Module({
+  imports: [ProofRetryModule],
   providers: [ProofWebsocketGateway],
   exports: [ProofWebsocketGateway],
 })
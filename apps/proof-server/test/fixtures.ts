@@ -0,0 +1,89 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { ConfigService } from '@nestjs/config';
+import type { ProofServerConfig } from '../src/config/config.interface.js';
+
+import { vi } from 'vitest';
+
+/**
+ * Time the specs freeze the clock at
+ */
+export const NOW = new Date('2025-01-01T00:00:00Z');
+
+export const MINUTE = 60000;
+
+/**
+ * Configuration of the proof-server specs, mirroring the defaults of env.validation
+ */
+export const CONFIG = {
+  instanceId: 'proof-server-1',
+  'proof.maxAttempts': 3,
+  'proof.retryDelayMs': 5000,
+  'proof.maxAgeMs': 30 * MINUTE,
+};
+
+/**
+ * PrismaService with the queries the proof-server runs
+ *
+ * Nothing is stored: `$queryRaw` claims nothing and `updateMany` matches every ID it is given.
+ */
+export function createPrisma() {
+  const prisma = {
+    $queryRaw: vi.fn<(strings: TemplateStringsArray, ...values: unknown[]) => Promise<unknown[]>>(),
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    proof: {
+      findUnique: vi.fn(({ where: { id } }: { where: { id: string } }) =>
+        Promise.resolve<Record<string, unknown> | null>({ id, status: 'generating', attempts: 1 }),
+      ),
+      findMany: vi.fn<(args: { where: unknown }) => Promise<Record<string, unknown>[]>>(),
+      updateMany: vi.fn(({ where }: { where: { AND?: [unknown, { id: { in: string[] } }] }; data: unknown }) =>
+        Promise.resolve({ count: where.AND?.[1].id.in.length ?? 1 }),
+      ),
+    },
+  };
+
+  prisma.$queryRaw.mockResolvedValue([]);
+  prisma.proof.findMany.mockResolvedValue([]);
+
+  return prisma;
+}
+
+/**
+ * ProofWebsocketGateway without connected workers
+ */
+export function createGateway() {
+  return {
+    getAvailableWorker: vi.fn(),
+    sendTask: vi.fn(),
+    releaseTask: vi.fn(),
+    retryProof: vi.fn(),
+  };
+}
+
+/**
+ * ProofRetryService requeueing every proof it is given
+ */
+export function createRetryService() {
+  return { retry: vi.fn().mockResolvedValue({ requeued: 1, dead: 0 }) };
+}
+
+/**
+ * ConfigService reading from `values`
+ */
+export function createConfig(values: Record<string, unknown> = CONFIG) {
+  return { get: (key: string) => values[key] } as unknown as ConfigService<ProofServerConfig, true>;
+}
+
+/**
+ * A `$queryRaw` call as the SQL Postgres runs, with its parameters inlined as literals
+ */
+export function renderSql(call: Parameters<ReturnType<typeof createPrisma>['$queryRaw']>): string {
+  const [strings, ...values] = call;
+  const literal = (value: unknown) => `'${value instanceof Date ? value.toISOString() : String(value)}'`;
+
+  return strings
+    .reduce((sql, part, index) => `${sql}${literal(values[index - 1])}${part}`)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
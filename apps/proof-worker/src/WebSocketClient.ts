@@ -3,6 +3,8 @@
 
 import { WebSocket } from 'ws';
 
+import { WORKER_PING_INTERVAL } from '@kzero/common';
+
 import { loggers } from './utils/logger.js';
 
 const logger = loggers.proofWorker;
@@ -20,7 +22,7 @@ export class WebSocketClient extends WebSocket {
 
   // Configuration constants
   private static readonly RECONNECT_INTERVAL = 5000; // 5 seconds
-  private static readonly PING_INTERVAL = 30000; // 30 seconds
+  private static readonly PING_INTERVAL = WORKER_PING_INTERVAL; // the proof server drops a worker after 3 missed pings
   private static readonly PONG_TIMEOUT = 5000; // 5 seconds timeout for pong response
 
   private isPongReceived: boolean = false;
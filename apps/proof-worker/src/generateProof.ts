@@ -1,11 +1,12 @@
 // Copyright 2024-2025 kzero authors & contributors
 // SPDX-License-Identifier: GNU General Public License v3.0
 
-import type { Groth16Proof, SuiProofFields, ZKLoginInput } from '@kzero/common';
+import type { Groth16Proof, ZKLoginInput } from '@kzero/common';
 
-import { mkdirp, readJson, writeJson } from 'fs-extra/esm';
+import { mkdirp, readJson, remove, writeJson } from 'fs-extra/esm';
 import { exec } from 'node:child_process';
-import { resolve } from 'node:path';
+import { mkdtemp } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
 import { promisify } from 'node:util';
 import { groth16, wtns } from 'snarkjs';
 
@@ -95,30 +96,35 @@ async function generateProofBinary(
 /**
  * Generates a zero-knowledge proof using zkLogin and prover executables
  * The process involves:
- * 1. Creating necessary directories and input files
+ * 1. Creating a working directory and input files
  * 2. Generating a witness using zkLogin
  * 3. Generating the final proof using the prover
  *
+ * Every proof gets a directory of its own under `CACHE_DIR`, removed once the proof is
+ * generated or failed, so concurrent proofs (even for the same user) never share files.
+ *
  * @param inputs - Input data for proof generation
- * @param fields - Proof fields containing address seed for file organization
  * @returns Promise resolving to the generated proof and public data
  * @throws Error if any step of the proof generation process fails
  */
-export async function generateProof(inputs: ZKLoginInput, fields: SuiProofFields): Promise<ProofResult> {
-  const cacheDir = `${CONFIG.baseCacheDir}/${fields.address_seed}`;
-  const paths = {
-    input: `${cacheDir}/input.json`,
-    witness: `${cacheDir}/witness.wtns`,
-    proof: `${cacheDir}/proof.json`,
-    public: `${cacheDir}/public.json`,
-  };
+export async function generateProof(inputs: ZKLoginInput): Promise<ProofResult> {
+  let cacheDir: string | undefined;
   const start = performance.now();
 
   try {
     logger.info(`Using ${CONFIG.proofMode} mode for proof generation`);
 
     // Prepare directory and input file
-    await mkdirp(cacheDir);
+    await mkdirp(CONFIG.baseCacheDir);
+    cacheDir = await mkdtemp(join(CONFIG.baseCacheDir, 'proof-'));
+
+    const paths = {
+      input: join(cacheDir, 'input.json'),
+      witness: join(cacheDir, 'witness.wtns'),
+      proof: join(cacheDir, 'proof.json'),
+      public: join(cacheDir, 'public.json'),
+    };
+
     await writeJson(paths.input, inputs);
 
     // Generate witness
@@ -144,8 +150,6 @@ export async function generateProof(inputs: ZKLoginInput, fields: SuiProofFields
     const end = performance.now();
 
     logger.info(`Proof generation completed in ${end - start}ms using ${CONFIG.proofMode} mode`);
-    logger.info(`View proof: ${paths.proof}`);
-    logger.info(`View publicSignals: ${paths.public}`);
 
     return { proof, public: publicSignals };
   } catch (error) {
@@ -153,5 +157,9 @@ export async function generateProof(inputs: ZKLoginInput, fields: SuiProofFields
 
     logger.error(`Failed to generate proof: ${errorMessage}`);
     throw new Error(`Failed to generate proof: ${errorMessage}`);
+  } finally {
+    if (cacheDir) {
+      await remove(cacheDir).catch((error: unknown) => logger.warn({ err: error }, `Failed to remove ${cacheDir}`));
+    }
   }
 }
@@ -7,7 +7,7 @@ import { randomBytes } from 'node:crypto';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 
-import { generateZKInput, type JWTPublicKeyData } from '@kzero/common';
+import { generateZKInput, JwksCache } from '@kzero/common';
 
 import { generateProof } from './generateProof.js';
 import { startWorker } from './worker.js';
@@ -55,18 +55,27 @@ void yargs(hideBin(process.argv))
           type: 'string',
           description: 'cert url for generate proof, e.g. https://www.googleapis.com/oauth2/v3/certs',
         })
-        .demandOption(['jwt', 'key', 'epoch', 'randomness', 'cert-url']),
+        .option('jwks-file', {
+          type: 'string',
+          description: 'local JWKS file ({"keys": [...]}) for generate proof offline, or as fallback for --cert-url',
+        })
+        .demandOption(['jwt', 'key', 'epoch', 'randomness'])
+        .check((argv) => {
+          if (!argv['cert-url'] && !argv['jwks-file']) {
+            throw new Error('Either --cert-url or --jwks-file is required');
+          }
+
+          return true;
+        }),
     async (argv) => {
       const jwt = argv.jwt;
       const key = argv.key;
       const epoch = argv.epoch;
       const randomness = argv.randomness;
       const salt = argv.salt || BigInt('0x' + randomBytes(32).toString('hex')).toString();
-      const certUrl = argv['cert-url'];
+      const jwks = new JwksCache({ url: argv['cert-url'], seedFile: argv['jwks-file'] });
 
-      const certs: JWTPublicKeyData[] = await fetch(certUrl)
-        .then((res) => res.json())
-        .then((json) => (json as { keys: JWTPublicKeyData[] }).keys);
+      const certs = await jwks.getKeys();
 
       generateZKInput({
         jwt,
@@ -76,10 +85,11 @@ void yargs(hideBin(process.argv))
         randomness,
         certs,
       })
-        .then(({ inputs, fields }) => {
-          return generateProof(inputs, fields);
+        .then(({ inputs }) => {
+          return generateProof(inputs);
         })
-        .then(() => {
+        .then((result) => {
+          process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
           process.exit();
         })
         .catch(() => {
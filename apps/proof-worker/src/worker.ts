@@ -3,21 +3,41 @@
 
 import type { SuiProofFields, ZKLoginInput } from '@kzero/common';
 
+import { loggers } from './utils/logger.js';
 import { generateProof } from './generateProof.js';
 import { WebSocketClient } from './WebSocketClient.js';
 
+const logger = loggers.proofWorker;
+
 /**
  * Message types for WebSocket communication
  */
 interface WebSocketMessage {
   task: 'generateProof';
   proofId: string;
+  /**
+   * Attempt of the proof, echoed in the answer so the proof server can tell late answers apart
+   */
+  attempt?: number;
   payload: {
     inputs: ZKLoginInput;
     fields: SuiProofFields;
   };
 }
 
+/**
+ * Proofs generated at once, declared to the proof server when connecting
+ */
+function getConcurrency(): number {
+  const concurrency = Number(process.env.WORKER_CONCURRENCY || 1);
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('WORKER_CONCURRENCY must be a positive integer');
+  }
+
+  return concurrency;
+}
+
 /**
  * Starts the proof generation worker
  * Establishes WebSocket connection and handles proof generation requests
@@ -29,21 +49,42 @@ export function startWorker(): void {
     throw new Error('PROOF_SERVER_WS_URL environment variable is not set');
   }
 
+  const concurrency = getConcurrency();
   const ws = new WebSocketClient(wsUrl);
 
+  // The proof server sends at most `concurrency` tasks at a time
+  ws.on('open', () => {
+    ws.send(JSON.stringify({ task: 'register', concurrency }));
+  });
+
   ws.on('message', async (message: Buffer) => {
     const data = JSON.parse(message.toString('utf-8')) as WebSocketMessage;
 
     if (data.task === 'generateProof') {
-      const result = await generateProof(data.payload.inputs, data.payload.fields);
-
-      ws.send(
-        JSON.stringify({
-          task: 'generateProof',
-          proofId: data.proofId,
-          results: result,
-        }),
-      );
+      try {
+        const result = await generateProof(data.payload.inputs);
+
+        ws.send(
+          JSON.stringify({
+            task: 'generateProof',
+            proofId: data.proofId,
+            attempt: data.attempt,
+            results: result,
+          }),
+        );
+      } catch (error) {
+        logger.error({ err: error, proofId: data.proofId }, 'Failed to generate proof');
+
+        // The proof server retries the proof, possibly on another worker
+        ws.send(
+          JSON.stringify({
+            task: 'proofError',
+            proofId: data.proofId,
+            attempt: data.attempt,
+            error: error instanceof Error ? error.message : String(error),
+          }),
+        );
+      }
     }
   });
 }
@@ -0,0 +1,21 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+/**
+ * Exponential backoff delay before the attempt that follows `attempts`
+ *
+ * The first retry waits `baseMs`, each further retry twice as long as the previous one, capped at `maxMs`.
+ *
+ * @param baseMs - Delay after the first attempt
+ * @param attempts - Attempts made so far
+ * @param maxMs - Upper bound of the delay
+ * @returns The delay in milliseconds
+ *
+ * @example
+ * ```typescript
+ * retryDelay(1000, 3, 60000); // 4000
+ * ```
+ */
+export function retryDelay(baseMs: number, attempts: number, maxMs: number): number {
+  return Math.min(baseMs * 2 ** Math.max(attempts - 1, 0), maxMs);
+}
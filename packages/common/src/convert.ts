@@ -103,7 +103,7 @@ export interface ZKProofRequest {
  * });
  * ```
  *
- * @throws Error if RSA modulus cannot be found in certs
+ * @throws Error if RSA modulus cannot be found in certs (use {@link JwksCache} to refresh on unknown kid)
  */
 export const generateZKInput = async ({
   jwt,
@@ -155,9 +155,6 @@ export const generateZKInput = async ({
   // Poseidon hash input padding lengths
   // These define how many field elements we hash for each JWT component
   const issPaddingLength = 224; // Issuer URL hash padding (e.g., "https://accounts.google.com")
-  const kcNameLength = 32; // Key claim name hash padding (e.g., "sub")
-  const kcValueLength = 115; // Key claim value hash padding (user's sub value)
-  const audValueLength = 145; // Audience value hash padding (OAuth client ID)
   const maxHeaderLen = 248; // Maximum JWT header length for hashing
   const paddedUnsignedJWTLength = 1600; // SHA-256 block padding for header.payload
 
@@ -270,35 +267,6 @@ export const generateZKInput = async ({
     }),
   });
 
-  // Hash the key claim name (always "sub" for user identifier)
-  const kcNameF = getPoseidonHash({
-    fields: hashStringToField({
-      paddingLength: kcNameLength,
-      inBase: 8,
-      outBase: 248,
-      value: 'sub',
-    }),
-  });
-  // Hash the key claim value (user's unique identifier from OAuth provider)
-  const kcValueF = getPoseidonHash({
-    fields: hashStringToField({
-      paddingLength: kcValueLength,
-      inBase: 8,
-      outBase: 248,
-      value: payload.sub!,
-    }),
-  });
-
-  // Hash the audience value (OAuth client ID)
-  const audValueF = getPoseidonHash({
-    fields: hashStringToField({
-      paddingLength: audValueLength,
-      inBase: 8,
-      outBase: 248,
-      value: payload.aud! as string,
-    }),
-  });
-
   // Hash the JWT header (contains alg, kid, typ)
   const headerF = getPoseidonHash({
     fields: hashStringToField({
@@ -321,13 +289,8 @@ export const generateZKInput = async ({
   // Step 12: Compute address seed (user's blockchain address determinant)
   // addressSeed = hash(kcNameF, kcValueF, audValueF, hash(salt))
   // This binds the user's identity (sub + aud) with the privacy-preserving salt
-  const saltBN = getBigNumber(getPaddedBase64Ascii({ base64: salt, length: salt.length, paddingValue: 0 }));
-  const addressSeed = getAddressSeed({
-    audValueF: audValueF.toString(),
-    kcNameF: kcNameF.toString(),
-    kcValueF: kcValueF.toString(),
-    salt: saltBN.toString(),
-  });
+  const saltBN = getSaltBigInt(salt);
+  const addressSeed = computeAddressSeed({ sub: payload.sub!, aud: payload.aud as string, salt });
 
   // Step 13: Calculate issuer index modulo 4 for base64 alignment verification
   // This ensures the issuer field is correctly positioned in the JWT
@@ -407,6 +370,119 @@ export const generateZKInput = async ({
   };
 };
 
+/**
+ * Extracts the base64 substring of the JWT `iss` claim
+ *
+ * Sui zkLogin signatures carry the issuer as this substring of the JWT payload
+ * (`issBase64Details`), while the circuit only receives its hash (`SuiProofFields.iss_base64_details`).
+ *
+ * @param jwt - The complete OAuth JWT token
+ * @returns {Object} An object containing:
+ *   - value: The base64url characters covering the `"iss":"...",` claim
+ *   - indexMod4: Offset of `value` in the payload modulo 4, to decode it
+ *
+ * @example
+ * ```typescript
+ * getIssBase64Details(googleJwt);
+ * // { value: 'yJpc3MiOiJodHRwczovL2FjY291bnRzLmdvb2dsZS5jb20iLC', indexMod4: 1 }
+ * ```
+ */
+export const getIssBase64Details = (jwt: string): { value: string; indexMod4: number } => {
+  const [headerBase64, payloadBase64] = jwt.split('.');
+  const payloadStr = decodeBase64(payloadBase64);
+  const claim = getKCString({ name: 'iss', payload: payloadStr }).substring(1);
+  const { needleB64, startB64 } = getBase64String({ hayStack: payloadStr, jwt, needle: claim });
+
+  return { value: needleB64, indexMod4: (startB64 - (headerBase64.length + 1)) % 4 };
+};
+
+/**
+ * Computes the zkLogin address seed of a user
+ *
+ * Same derivation as the `address_seed` of {@link generateZKInput}, without the JWT
+ * signature or certs: addressSeed = poseidonHash([kcNameF, kcValueF, audValueF, poseidonHash([salt])])
+ * with "sub" as key claim.
+ *
+ * @param sub - The `sub` claim of the JWT (user identifier)
+ * @param aud - The `aud` claim of the JWT (OAuth client ID)
+ * @param salt - The user salt, as stored by the salt service
+ * @returns The address seed as a BigInt
+ */
+export const computeAddressSeed = ({ sub, aud, salt }: { sub: string; aud: string; salt: string }): bigint => {
+  // Poseidon hash input padding lengths, fixed by the zkLogin circuit
+  const kcNameLength = 32; // Key claim name hash padding (e.g., "sub")
+  const kcValueLength = 115; // Key claim value hash padding (user's sub value)
+  const audValueLength = 145; // Audience value hash padding (OAuth client ID)
+
+  // Hash the key claim name (always "sub" for user identifier)
+  const kcNameF = getPoseidonHash({
+    fields: hashStringToField({
+      paddingLength: kcNameLength,
+      inBase: 8,
+      outBase: 248,
+      value: 'sub',
+    }),
+  });
+  // Hash the key claim value (user's unique identifier from OAuth provider)
+  const kcValueF = getPoseidonHash({
+    fields: hashStringToField({
+      paddingLength: kcValueLength,
+      inBase: 8,
+      outBase: 248,
+      value: sub,
+    }),
+  });
+
+  // Hash the audience value (OAuth client ID)
+  const audValueF = getPoseidonHash({
+    fields: hashStringToField({
+      paddingLength: audValueLength,
+      inBase: 8,
+      outBase: 248,
+      value: aud,
+    }),
+  });
+
+  // This binds the user's identity (sub + aud) with the privacy-preserving salt
+  return getAddressSeed({
+    audValueF: audValueF.toString(),
+    kcNameF: kcNameF.toString(),
+    kcValueF: kcValueF.toString(),
+    salt: getSaltBigInt(salt).toString(),
+  });
+};
+
+/**
+ * Order of the BN254 scalar field, every circuit input must be smaller
+ */
+export const BN254_FIELD_MODULUS = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+/**
+ * Checks whether a salt can be used as a zkLogin circuit input
+ *
+ * {@link generateZKInput} turns the salt into a field element from its base64 ASCII bytes
+ * (via `getPaddedBase64Ascii`), so the salt must be non-empty base64 whose ASCII value
+ * is smaller than the BN254 field modulus.
+ *
+ * @param salt - Base64-encoded salt value
+ * @returns true if the salt is valid base64 and fits in a field element
+ *
+ * @example
+ * ```typescript
+ * isFieldSizedSalt('c2FsdA=='); // true
+ * isFieldSizedSalt('a'.repeat(40)); // false, larger than the field
+ * ```
+ */
+export const isFieldSizedSalt = (salt: string): boolean => {
+  if (!/^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=|[A-Za-z0-9+/]{4})$/.test(salt)) {
+    return false;
+  }
+
+  return (
+    getBigNumber(getPaddedBase64Ascii({ base64: salt, length: salt.length, paddingValue: 0 })) < BN254_FIELD_MODULUS
+  );
+};
+
 /**
  * Computes the address seed for a zkLogin user
  *
@@ -613,7 +689,7 @@ const getModulus = async ({ header, certs }: { header: JWTHeader; certs: JWTPubl
     return key[0].n;
   }
 
-  throw new Error('Modulus not found');
+  throw new Error(`Modulus not found: no public key for kid "${header.kid}" in provided certs`);
 };
 
 const getBigNumber = (data: Uint8Array): bigint => {
@@ -624,6 +700,10 @@ const getBigNumber = (data: Uint8Array): bigint => {
   return BigInt('0b' + binary_data.join(''));
 };
 
+// The circuit takes the salt as the big-endian number of its ASCII bytes
+const getSaltBigInt = (salt: string): bigint =>
+  getBigNumber(getPaddedBase64Ascii({ base64: salt, length: salt.length, paddingValue: 0 }));
+
 const getLimbs = ({ base, num }: { num: bigint; base: number }): string[] => {
   const binary = num.toString(2);
   const padLength = Math.ceil(binary.length / base) * base;
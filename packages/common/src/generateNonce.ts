@@ -15,7 +15,10 @@ import { hexToU8a } from '@polkadot/util';
  * The nonce is used in zero-knowledge proof generation for secure authentication.
  *
  * @param ephemeralPublicKey - The ephemeral public key in hexadecimal format
- * @param maxEpoch - The maximum epoch time in milliseconds (default: current time + 24 hours)
+ * @param maxEpoch - The maximum epoch: a Sui chain epoch, or a millisecond timestamp for non-Sui chains
+ *   (default: current time + 24 hours in milliseconds)
+ * @param randomness - Decimal randomness chosen by the caller, e.g. to recompute a client-side nonce
+ *   (default: freshly generated)
  * @returns {Object} An object containing:
  *   - nonce: The generated cryptographic nonce
  *   - randomness: Random value used in nonce generation for security
@@ -24,13 +27,11 @@ import { hexToU8a } from '@polkadot/util';
 export function generateNonce(
   ephemeralPublicKey: HexString,
   maxEpoch: number = Date.now() + 3600 * 24 * 1000,
+  randomness: string = generateRandomness(),
 ): { nonce: string; randomness: string; maxEpoch: number } {
   // Convert hex string to Ed25519 public key
   const ephemeralPublicKeyEd25519 = new Ed25519PublicKey(hexToU8a(ephemeralPublicKey));
 
-  // Generate random value for nonce creation
-  const randomness = generateRandomness();
-
   // Create nonce using the ephemeral key, max epoch, and randomness
   const nonce = generateNonceBase(ephemeralPublicKeyEd25519 as unknown as PublicKey, maxEpoch, randomness);
 
@@ -1,6 +1,14 @@
 // Copyright 2024-2025 kzero authors & contributors
 // SPDX-License-Identifier: GNU General Public License v3.0
 
+export * from './backoff.js';
 export * from './generateNonce.js';
 export * from './convert.js';
 export * from './poseidon.js';
+export * from './jwks.js';
+export * from './proofRequest.js';
+export * from './webhook.js';
+export * from './worker.js';
+export * from './zkLoginSignature.js';
+export * from './zkLoginAddress.js';
+export * from './ss58Address.js';
@@ -0,0 +1,235 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { JWTPublicKeyData } from './convert.js';
+
+import { readFile } from 'node:fs/promises';
+
+/**
+ * Options for {@link JwksCache}
+ */
+export interface JwksCacheOptions {
+  /**
+   * Remote JWKS URL (e.g. https://www.googleapis.com/oauth2/v3/certs).
+   * When omitted the cache only serves seeded keys.
+   */
+  url?: string;
+
+  /**
+   * Local JSON file (`{ "keys": [...] }`) used to seed the cache, e.g. for offline use
+   */
+  seedFile?: string;
+
+  /**
+   * Lifetime of a key set when the response has no usable Cache-Control max-age (default: 5 minutes)
+   */
+  defaultMaxAge?: number;
+
+  /**
+   * Minimum delay between two refreshes triggered by an unknown `kid` (default: 30 seconds)
+   */
+  minRefreshInterval?: number;
+
+  /**
+   * Fetch implementation, defaults to the global fetch
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Error thrown when no key matches the requested `kid`
+ */
+export class JwksKeyNotFoundError extends Error {
+  constructor(public readonly kid: string | undefined) {
+    super(`No public key found for kid "${kid}"`);
+    this.name = 'JwksKeyNotFoundError';
+  }
+}
+
+const DEFAULT_MAX_AGE = 5 * 60 * 1000;
+const DEFAULT_MIN_REFRESH_INTERVAL = 30 * 1000;
+
+/**
+ * Parses the max-age of a Cache-Control header
+ *
+ * @param header - Cache-Control header value
+ * @returns max-age in milliseconds, 0 for no-store/no-cache, or undefined if absent
+ */
+export function parseCacheControlMaxAge(header: string | null | undefined): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  if (/(^|,)\s*(no-store|no-cache)\s*(,|$)/i.test(header)) {
+    return 0;
+  }
+
+  const match = /(?:^|,)\s*max-age\s*=\s*"?(\d+)"?/i.exec(header);
+
+  return match ? Number(match[1]) * 1000 : undefined;
+}
+
+/**
+ * Caching JSON Web Key Set fetcher
+ *
+ * - Reuses a key set for its Cache-Control max-age
+ * - Refreshes (throttled) when asked for an unknown `kid`, so provider key rotation is picked up
+ * - Falls back to the last good key set when the provider is unreachable
+ * - Can be seeded from a local file for offline use
+ *
+ * @example
+ * ```typescript
+ * const jwks = new JwksCache({ url: 'https://www.googleapis.com/oauth2/v3/certs' });
+ * const key = await jwks.getKey(header.kid);
+ * ```
+ */
+export class JwksCache {
+  private keys: JWTPublicKeyData[] = [];
+  private expiresAt = 0;
+  private lastFetchAt = 0;
+  private pending?: Promise<JWTPublicKeyData[]>;
+  private seeded?: Promise<void>;
+
+  private readonly defaultMaxAge: number;
+  private readonly minRefreshInterval: number;
+  private readonly fetcher: typeof fetch;
+
+  constructor(private readonly options: JwksCacheOptions) {
+    if (!options.url && !options.seedFile) {
+      throw new Error('JwksCache requires a url or a seedFile');
+    }
+
+    this.defaultMaxAge = options.defaultMaxAge ?? DEFAULT_MAX_AGE;
+    this.minRefreshInterval = options.minRefreshInterval ?? DEFAULT_MIN_REFRESH_INTERVAL;
+    this.fetcher = options.fetch ?? fetch;
+  }
+
+  /**
+   * Seeds the cache with a known key set
+   *
+   * Seeded keys are served until the first successful remote fetch replaces them.
+   *
+   * @param keys - Keys to serve
+   */
+  seed(keys: JWTPublicKeyData[]): void {
+    this.keys = keys;
+  }
+
+  /**
+   * Returns the current key set, fetching it if the cached copy expired
+   *
+   * @returns The key set
+   * @throws Error if no key set was ever loaded and the provider is unreachable
+   */
+  async getKeys(): Promise<JWTPublicKeyData[]> {
+    await this.loadSeed();
+
+    if (this.options.url && Date.now() >= this.expiresAt) {
+      return this.refresh();
+    }
+
+    return this.keys;
+  }
+
+  /**
+   * Returns the key with the given `kid`
+   *
+   * An unknown `kid` triggers a refresh (at most once per `minRefreshInterval`)
+   * to pick up rotated provider keys.
+   *
+   * @param kid - Key ID from the JWT header
+   * @returns The matching key
+   * @throws JwksKeyNotFoundError if no key matches, even after a refresh
+   */
+  async getKey(kid: string | undefined): Promise<JWTPublicKeyData> {
+    let key = (await this.getKeys()).find((candidate) => candidate.kid === kid);
+
+    if (!key && this.options.url && Date.now() - this.lastFetchAt >= this.minRefreshInterval) {
+      key = (await this.refresh()).find((candidate) => candidate.kid === kid);
+    }
+
+    if (!key) {
+      throw new JwksKeyNotFoundError(kid);
+    }
+
+    return key;
+  }
+
+  /**
+   * Fetches the key set from the provider
+   *
+   * Concurrent calls share a single request. On failure the last good key set is returned.
+   *
+   * @returns The fresh key set, or the last good one if the provider is unreachable
+   * @throws Error if the fetch fails and there is no key set to fall back to
+   */
+  refresh(): Promise<JWTPublicKeyData[]> {
+    if (!this.pending) {
+      this.pending = this.fetchKeys().finally(() => {
+        this.pending = undefined;
+      });
+    }
+
+    return this.pending;
+  }
+
+  private async fetchKeys(): Promise<JWTPublicKeyData[]> {
+    this.lastFetchAt = Date.now();
+
+    try {
+      const response = await this.fetcher(this.options.url!);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const body = (await response.json()) as { keys?: JWTPublicKeyData[] };
+
+      if (!Array.isArray(body.keys)) {
+        throw new Error('Response has no keys array');
+      }
+
+      const maxAge = parseCacheControlMaxAge(response.headers.get('cache-control')) ?? this.defaultMaxAge;
+
+      this.keys = body.keys;
+      this.expiresAt = Date.now() + maxAge;
+
+      return this.keys;
+    } catch (error) {
+      if (this.keys.length > 0) {
+        // Retry on the next call instead of hammering an unreachable provider
+        this.expiresAt = Date.now() + this.minRefreshInterval;
+
+        return this.keys;
+      }
+
+      throw new Error(
+        `Failed to fetch JWKS from ${this.options.url}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private loadSeed(): Promise<void> {
+    if (!this.options.seedFile) {
+      return Promise.resolve();
+    }
+
+    this.seeded ??= readFile(this.options.seedFile, 'utf-8')
+      .then((content) => {
+        const { keys } = JSON.parse(content) as { keys: JWTPublicKeyData[] };
+
+        // Don't overwrite keys that were fetched while the file was being read
+        if (this.keys.length === 0) {
+          this.seed(keys);
+        }
+      })
+      .catch((error: unknown) => {
+        // The seed is only a fallback when a remote URL is configured
+        if (!this.options.url) {
+          throw error;
+        }
+      });
+
+    return this.seeded;
+  }
+}
@@ -0,0 +1,49 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { HexString } from '@polkadot/util/types';
+
+import { Ed25519PublicKey } from '@mysten/sui/keypairs/ed25519';
+import { hexToU8a } from '@polkadot/util';
+
+/**
+ * Builds the message an ephemeral key signs to fetch its proof
+ *
+ * @param ephemeralPublicKey - The ephemeral public key in hexadecimal format
+ * @param timestamp - Unix timestamp in milliseconds at signing time
+ * @returns The message to sign as a Sui personal message
+ *
+ * @example
+ * ```typescript
+ * const timestamp = Date.now();
+ * const message = getProofRequestMessage(publicKeyHex, timestamp);
+ * const { signature } = await ephemeralKeypair.signPersonalMessage(new TextEncoder().encode(message));
+ * ```
+ */
+export function getProofRequestMessage(ephemeralPublicKey: HexString, timestamp: number): string {
+  return `kzero:get-proof:${ephemeralPublicKey.toLowerCase()}:${timestamp}`;
+}
+
+/**
+ * Verifies that a proof request was signed by the ephemeral private key
+ *
+ * @param ephemeralPublicKey - The ephemeral Ed25519 public key in hexadecimal format
+ * @param timestamp - Unix timestamp in milliseconds the request was signed at
+ * @param signature - Serialized Sui signature (base64) of {@link getProofRequestMessage} as a personal message
+ * @returns true if the signature is valid for this key and timestamp, false otherwise
+ */
+export async function verifyProofRequestSignature(
+  ephemeralPublicKey: HexString,
+  timestamp: number,
+  signature: string,
+): Promise<boolean> {
+  try {
+    const publicKey = new Ed25519PublicKey(hexToU8a(ephemeralPublicKey));
+    const message = new TextEncoder().encode(getProofRequestMessage(ephemeralPublicKey, timestamp));
+
+    return await publicKey.verifyPersonalMessage(message, signature);
+  } catch {
+    // Malformed key or signature
+    return false;
+  }
+}
@@ -0,0 +1,48 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { hexToU8a } from '@polkadot/util';
+import { encodeAddress } from '@polkadot/util-crypto';
+
+import { computeZkLoginAddress } from './zkLoginAddress.js';
+
+/**
+ * Default SS58 network prefix (generic Substrate)
+ */
+export const DEFAULT_SS58_PREFIX = 42;
+
+/**
+ * Computes the 32-byte account ID of a zkLogin user on Substrate-based chains
+ *
+ * The account ID is the same blake2b-256 hash as the Sui zkLogin address
+ * (see {@link computeZkLoginAddress}), so one proof maps to one identity on both.
+ *
+ * @param addressSeed - The address seed (`addressSeed` of the proof response), as decimal string or BigInt
+ * @param iss - The `iss` claim of the JWT
+ * @returns The AccountId32 bytes
+ */
+export function computeZkLoginAccountId(addressSeed: string | bigint, iss: string): Uint8Array {
+  return hexToU8a(computeZkLoginAddress(addressSeed, iss));
+}
+
+/**
+ * Computes the SS58 address of a zkLogin user
+ *
+ * @param addressSeed - The address seed (`addressSeed` of the proof response), as decimal string or BigInt
+ * @param iss - The `iss` claim of the JWT
+ * @param ss58Prefix - The network prefix, 0 to 16383 (default: 42, generic Substrate)
+ * @returns The SS58-encoded account ID
+ *
+ * @example
+ * ```typescript
+ * const address = computeZkLoginSs58Address(results.addressSeed, 'https://accounts.google.com', 42);
+ * // 5HfXhQ...
+ * ```
+ */
+export function computeZkLoginSs58Address(
+  addressSeed: string | bigint,
+  iss: string,
+  ss58Prefix: number = DEFAULT_SS58_PREFIX,
+): string {
+  return encodeAddress(computeZkLoginAccountId(addressSeed, iss), ss58Prefix);
+}
@@ -0,0 +1,64 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Header carrying the webhook signature, `t=<unix ms>,v1=<hex HMAC-SHA256>`
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-kzero-signature';
+
+/**
+ * Signs a webhook body with the webhook secret
+ *
+ * The HMAC-SHA256 covers `${timestamp}.${body}`, so a captured request cannot be
+ * replayed with a fresh timestamp.
+ *
+ * @param secret - The webhook signing secret
+ * @param body - The raw request body
+ * @param timestamp - Unix timestamp in milliseconds at sending time
+ * @returns The value of the {@link WEBHOOK_SIGNATURE_HEADER} header
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Date.now()): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Verifies a webhook signature on the receiving side
+ *
+ * @param secret - The webhook signing secret
+ * @param body - The raw request body, exactly as received
+ * @param signature - The value of the {@link WEBHOOK_SIGNATURE_HEADER} header
+ * @param toleranceMs - Maximum age of the signed timestamp (default: 5 minutes)
+ * @returns true if the signature is valid and recent, false otherwise
+ *
+ * @example
+ * ```typescript
+ * app.post('/kzero', express.raw({ type: 'application/json' }), (req, res) => {
+ *   if (!verifyWebhookSignature(secret, req.body.toString(), req.get(WEBHOOK_SIGNATURE_HEADER) ?? '')) {
+ *     return res.sendStatus(401);
+ *   }
+ *   // ...
+ * });
+ * ```
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signature: string,
+  toleranceMs: number = 5 * 60 * 1000,
+): boolean {
+  const parts = Object.fromEntries(signature.split(',').map((part) => part.split('=', 2)));
+  const timestamp = Number(parts.t);
+
+  if (!Number.isSafeInteger(timestamp) || !parts.v1 || Math.abs(Date.now() - timestamp) > toleranceMs) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1], 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,9 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+/**
+ * Interval at which proof-workers ping the proof-server (30 seconds)
+ *
+ * The proof-server derives from it how long a worker may stay silent before it is dropped.
+ */
+export const WORKER_PING_INTERVAL = 30000;
@@ -0,0 +1,66 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { hexToU8a, u8aToHex } from '@polkadot/util';
+import { blake2AsU8a } from '@polkadot/util-crypto';
+import { decodeJwt } from 'jose';
+
+import { computeAddressSeed } from './convert.js';
+
+/**
+ * Signature scheme flag of zkLogin in Sui addresses
+ */
+const ZKLOGIN_FLAG = 0x05;
+
+/**
+ * Google id_tokens may carry the issuer without scheme, Sui hashes the normalized form
+ */
+const normalizeIssuer = (iss: string): string => (iss === 'accounts.google.com' ? 'https://accounts.google.com' : iss);
+
+/**
+ * Computes the Sui address of a zkLogin user
+ *
+ * address = blake2b-256(0x05 || len(iss) || iss || addressSeed), like
+ * `computeZkLoginAddressFromSeed` of `@mysten/sui/zklogin`.
+ *
+ * @param addressSeed - The address seed (`addressSeed` of the proof response), as decimal string or BigInt
+ * @param iss - The `iss` claim of the JWT
+ * @param legacyAddress - Encode the seed without leading zero bytes, the default of the Sui SDK
+ *   (default: true). Seeds with a leading zero byte have a second, padded address.
+ * @returns The Sui address (0x-prefixed, 64 hex characters)
+ *
+ * @example
+ * ```typescript
+ * const address = computeZkLoginAddress(results.addressSeed, 'https://accounts.google.com');
+ * ```
+ */
+export function computeZkLoginAddress(addressSeed: string | bigint, iss: string, legacyAddress = true): string {
+  const seedBytes = hexToU8a(BigInt(addressSeed).toString(16).padStart(64, '0'));
+  const firstNonZero = seedBytes.findIndex((byte) => byte !== 0);
+  const seed = !legacyAddress ? seedBytes : firstNonZero === -1 ? new Uint8Array([0]) : seedBytes.slice(firstNonZero);
+  const issBytes = new TextEncoder().encode(normalizeIssuer(iss));
+
+  return u8aToHex(blake2AsU8a(new Uint8Array([ZKLOGIN_FLAG, issBytes.length, ...issBytes, ...seed]), 256));
+}
+
+/**
+ * Computes the Sui address of a zkLogin user from the JWT and salt
+ *
+ * The address seed is derived with {@link computeAddressSeed}, so the address matches
+ * the `address_seed` of the proofs generated for this JWT and salt.
+ *
+ * @param jwt - The OAuth JWT (only decoded, the signature is not checked)
+ * @param salt - The user salt, as stored by the salt service
+ * @param legacyAddress - See {@link computeZkLoginAddress}
+ * @returns The Sui address (0x-prefixed, 64 hex characters)
+ * @throws Error if the JWT is malformed or misses the iss, sub or aud claim
+ */
+export function computeZkLoginAddressFromJwt(jwt: string, salt: string, legacyAddress = true): string {
+  const { iss, sub, aud } = decodeJwt(jwt);
+
+  if (!iss || !sub || typeof aud !== 'string') {
+    throw new Error('JWT must have iss, sub and a single aud claim');
+  }
+
+  return computeZkLoginAddress(computeAddressSeed({ sub, aud, salt }), iss, legacyAddress);
+}
@@ -0,0 +1,90 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { getZkLoginSignature } from '@mysten/sui/zklogin';
+
+import { getIssBase64Details } from './convert.js';
+
+/**
+ * Groth16 proof points as produced by the prover
+ */
+export interface ZkLoginProofPoints {
+  pi_a: string[];
+  pi_b: string[][];
+  pi_c: string[];
+}
+
+/**
+ * zkLogin signature inputs
+ *
+ * The `inputs` of `getZkLoginSignature` from `@mysten/sui/zklogin`, as plain JSON.
+ */
+export interface ZkLoginInputs {
+  proofPoints: {
+    a: string[];
+    b: string[][];
+    c: string[];
+  };
+  issBase64Details: {
+    value: string;
+    indexMod4: number;
+  };
+  headerBase64: string;
+  addressSeed: string;
+}
+
+/**
+ * Builds the zkLogin signature inputs for a generated proof
+ *
+ * @param jwt - The OAuth JWT the proof was generated for
+ * @param proof - The generated Groth16 proof
+ * @param addressSeed - The address seed of the proof (`SuiProofFields.address_seed`)
+ * @returns The zkLogin signature inputs
+ */
+export function getZkLoginInputs({
+  jwt,
+  proof,
+  addressSeed,
+}: {
+  jwt: string;
+  proof: ZkLoginProofPoints;
+  addressSeed: string;
+}): ZkLoginInputs {
+  return {
+    proofPoints: {
+      a: proof.pi_a,
+      b: proof.pi_b,
+      c: proof.pi_c,
+    },
+    issBase64Details: getIssBase64Details(jwt),
+    headerBase64: jwt.split('.')[0],
+    addressSeed,
+  };
+}
+
+/**
+ * Serializes a zkLogin signature from the proof inputs and an ephemeral key signature
+ *
+ * @param inputs - The zkLogin signature inputs (`zkLoginInputs` of the proof response)
+ * @param maxEpoch - The maxEpoch the nonce was generated with
+ * @param userSignature - Serialized signature (base64) of the transaction by the ephemeral key
+ * @returns The serialized zkLogin signature (base64), ready to submit with the transaction
+ *
+ * @example
+ * ```typescript
+ * const { signature: userSignature } = await ephemeralKeypair.signTransaction(txBytes);
+ * const signature = serializeZkLoginSignature({ inputs: results.zkLoginInputs, maxEpoch: results.maxEpoch, userSignature });
+ * await client.executeTransactionBlock({ transactionBlock: txBytes, signature });
+ * ```
+ */
+export function serializeZkLoginSignature({
+  inputs,
+  maxEpoch,
+  userSignature,
+}: {
+  inputs: ZkLoginInputs;
+  maxEpoch: number | string;
+  userSignature: string | Uint8Array;
+}): string {
+  return getZkLoginSignature({ inputs, maxEpoch, userSignature });
+}
@@ -0,0 +1,19 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { expect, test } from 'vitest';
+
+import { retryDelay } from '../src/backoff';
+
+// Test cases for retryDelay function
+test('retryDelay waits the base delay after the first attempt and doubles it after each further one', () => {
+  expect([1, 2, 3, 4].map((attempts) => retryDelay(1000, attempts, 60000))).toEqual([1000, 2000, 4000, 8000]);
+});
+
+test('retryDelay is capped at the maximum delay', () => {
+  expect(retryDelay(1000, 10, 60000)).toBe(60000);
+});
+
+test('retryDelay waits the base delay before any attempt was made', () => {
+  expect(retryDelay(1000, 0, 60000)).toBe(1000);
+});
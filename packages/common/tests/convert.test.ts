@@ -3,7 +3,14 @@
 
 import { expect, test } from 'vitest';
 
-import { generateZKInput, toBigIntBE, toHEX } from '../src/convert';
+import {
+  computeAddressSeed,
+  generateZKInput,
+  getIssBase64Details,
+  isFieldSizedSalt,
+  toBigIntBE,
+  toHEX,
+} from '../src/convert';
 
 // Test cases for toHEX function
 test('toHEX converts Uint8Array to hex string', () => {
@@ -89,6 +96,13 @@ test('generateZKInput generates correct input for valid JWT', async () => {
   expect(result.fields).toHaveProperty('address_seed');
   expect(result.fields).toHaveProperty('header');
   expect(result.fields).toHaveProperty('iss_base64_details');
+  expect(result.fields.address_seed).toBe(
+    computeAddressSeed({
+      sub: '111140461530246164526',
+      aud: '560629365517-mt9j9arflcgi35i8hpoptr66qgo1lmfm.apps.googleusercontent.com',
+      salt,
+    }).toString(),
+  );
 });
 
 test('generateZKInput handles invalid JWT', async () => {
@@ -120,3 +134,44 @@ test('generateZKInput handles invalid JWT', async () => {
     }),
   ).rejects.toThrow();
 });
+
+// Test cases for getIssBase64Details function
+test('getIssBase64Details extracts the base64 iss claim of a JWT', () => {
+  const payload = Buffer.from(JSON.stringify({ iss: 'https://accounts.google.com', sub: '1' })).toString('base64url');
+
+  expect(getIssBase64Details(`eyJhbGciOiJSUzI1NiJ9.${payload}.sig`)).toEqual({
+    value: 'yJpc3MiOiJodHRwczovL2FjY291bnRzLmdvb2dsZS5jb20iLC',
+    indexMod4: 1,
+  });
+});
+
+test('getIssBase64Details handles an iss claim after other claims', () => {
+  const payload = Buffer.from(JSON.stringify({ sub: '1', iss: 'https://issuer.example', aud: 'a' })).toString(
+    'base64url',
+  );
+  const { value, indexMod4 } = getIssBase64Details(`eyJhbGciOiJSUzI1NiJ9.${payload}.sig`);
+
+  // Realign to a base64 group boundary to decode
+  expect(Buffer.from('A'.repeat(indexMod4) + value, 'base64url').toString()).toContain(
+    '"iss":"https://issuer.example",',
+  );
+});
+
+// Test cases for isFieldSizedSalt function
+test('isFieldSizedSalt accepts base64 salts that fit in a field element', () => {
+  expect(isFieldSizedSalt('c2FsdA==')).toBe(true);
+  expect(isFieldSizedSalt(Buffer.alloc(16, 0xff).toString('base64'))).toBe(true);
+  expect(isFieldSizedSalt('A'.repeat(28))).toBe(true);
+});
+
+test('isFieldSizedSalt rejects salts larger than the field', () => {
+  // 32 ASCII bytes starting with 'z' (0x7a) exceed the ~2^254 modulus
+  expect(isFieldSizedSalt('z'.repeat(32))).toBe(false);
+  expect(isFieldSizedSalt('A'.repeat(64))).toBe(false);
+});
+
+test('isFieldSizedSalt rejects empty and non-base64 salts', () => {
+  expect(isFieldSizedSalt('')).toBe(false);
+  expect(isFieldSizedSalt('not base64!')).toBe(false);
+  expect(isFieldSizedSalt('abc')).toBe(false);
+});
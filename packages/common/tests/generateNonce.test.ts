@@ -60,3 +60,13 @@ test('generateNonce handles short public key', () => {
     generateNonce(shortPublicKey);
   }).toThrow();
 });
+
+test('generateNonce recomputes the same nonce from given randomness', () => {
+  const ephemeralPublicKey = '0xfafd1d9e25a87e9652976a7bb06c2e4777c2e539d90f3ee7b6b12b9a45118a88';
+  const maxEpoch = 514;
+  const first = generateNonce(ephemeralPublicKey, maxEpoch);
+  const second = generateNonce(ephemeralPublicKey, maxEpoch, first.randomness);
+
+  expect(second.randomness).toBe(first.randomness);
+  expect(second.nonce).toBe(first.nonce);
+});
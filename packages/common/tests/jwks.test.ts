@@ -0,0 +1,143 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, expect, test, vi } from 'vitest';
+
+import { JwksCache, JwksKeyNotFoundError, parseCacheControlMaxAge } from '../src/jwks';
+
+const URL = 'https://example.com/certs';
+
+const key = (kid: string) => ({ kid, kty: 'RSA', alg: 'RS256', use: 'sig', e: 'AQAB', n: `modulus-${kid}` });
+
+const jsonResponse = (keys: unknown[], cacheControl?: string) =>
+  new Response(JSON.stringify({ keys }), {
+    status: 200,
+    headers: cacheControl ? { 'cache-control': cacheControl } : {},
+  });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Test cases for parseCacheControlMaxAge function
+test('parseCacheControlMaxAge reads max-age in milliseconds', () => {
+  expect(parseCacheControlMaxAge('public, max-age=21600, must-revalidate')).toBe(21600000);
+});
+
+test('parseCacheControlMaxAge treats no-store and no-cache as zero', () => {
+  expect(parseCacheControlMaxAge('no-store')).toBe(0);
+  expect(parseCacheControlMaxAge('private, no-cache')).toBe(0);
+});
+
+test('parseCacheControlMaxAge returns undefined without max-age', () => {
+  expect(parseCacheControlMaxAge(undefined)).toBeUndefined();
+  expect(parseCacheControlMaxAge('public')).toBeUndefined();
+});
+
+// Test cases for JwksCache class
+test('JwksCache reuses keys until Cache-Control max-age expires', async () => {
+  const fetch = vi.fn().mockImplementation(async () => jsonResponse([key('a')], 'max-age=60'));
+  const jwks = new JwksCache({ url: URL, fetch });
+
+  await jwks.getKey('a');
+  vi.advanceTimersByTime(59_000);
+  await jwks.getKey('a');
+
+  expect(fetch).toHaveBeenCalledTimes(1);
+
+  vi.advanceTimersByTime(2_000);
+  await jwks.getKey('a');
+
+  expect(fetch).toHaveBeenCalledTimes(2);
+});
+
+test('JwksCache refreshes on unknown kid to pick up rotated keys', async () => {
+  const fetch = vi
+    .fn()
+    .mockResolvedValueOnce(jsonResponse([key('old')], 'max-age=3600'))
+    .mockResolvedValueOnce(jsonResponse([key('old'), key('new')], 'max-age=3600'));
+  const jwks = new JwksCache({ url: URL, fetch, minRefreshInterval: 0 });
+
+  await jwks.getKey('old');
+
+  await expect(jwks.getKey('new')).resolves.toEqual(key('new'));
+  expect(fetch).toHaveBeenCalledTimes(2);
+});
+
+test('JwksCache throttles refreshes triggered by unknown kids', async () => {
+  const fetch = vi.fn().mockImplementation(async () => jsonResponse([key('a')], 'max-age=3600'));
+  const jwks = new JwksCache({ url: URL, fetch, minRefreshInterval: 30_000 });
+
+  await jwks.getKey('a');
+
+  await expect(jwks.getKey('unknown')).rejects.toBeInstanceOf(JwksKeyNotFoundError);
+  expect(fetch).toHaveBeenCalledTimes(1);
+
+  vi.advanceTimersByTime(30_000);
+
+  await expect(jwks.getKey('unknown')).rejects.toThrow('No public key found for kid "unknown"');
+  expect(fetch).toHaveBeenCalledTimes(2);
+});
+
+test('JwksCache falls back to the last good key set when the provider is unreachable', async () => {
+  const fetch = vi
+    .fn()
+    .mockResolvedValueOnce(jsonResponse([key('a')], 'max-age=1'))
+    .mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'));
+  const jwks = new JwksCache({ url: URL, fetch });
+
+  await jwks.getKeys();
+  vi.advanceTimersByTime(2_000);
+
+  await expect(jwks.getKeys()).resolves.toEqual([key('a')]);
+  expect(fetch).toHaveBeenCalledTimes(2);
+});
+
+test('JwksCache throws when the provider is unreachable and nothing is cached', async () => {
+  const fetch = vi.fn().mockResolvedValue(new Response('oops', { status: 503 }));
+  const jwks = new JwksCache({ url: URL, fetch });
+
+  await expect(jwks.getKeys()).rejects.toThrow(`Failed to fetch JWKS from ${URL}: HTTP 503`);
+});
+
+test('JwksCache shares a single request between concurrent callers', async () => {
+  const fetch = vi.fn().mockImplementation(async () => jsonResponse([key('a')]));
+  const jwks = new JwksCache({ url: URL, fetch });
+
+  await Promise.all([jwks.getKey('a'), jwks.getKey('a'), jwks.getKeys()]);
+
+  expect(fetch).toHaveBeenCalledTimes(1);
+});
+
+test('JwksCache serves keys seeded from a local file offline', async () => {
+  const seedFile = join(mkdtempSync(join(tmpdir(), 'jwks-')), 'certs.json');
+
+  writeFileSync(seedFile, JSON.stringify({ keys: [key('offline')] }));
+
+  const jwks = new JwksCache({ seedFile });
+
+  await expect(jwks.getKey('offline')).resolves.toEqual(key('offline'));
+});
+
+test('JwksCache uses the seed file when the remote fetch fails', async () => {
+  const seedFile = join(mkdtempSync(join(tmpdir(), 'jwks-')), 'certs.json');
+
+  writeFileSync(seedFile, JSON.stringify({ keys: [key('seed')] }));
+
+  const fetch = vi.fn().mockRejectedValue(new Error('offline'));
+  const jwks = new JwksCache({ url: URL, seedFile, fetch });
+
+  await expect(jwks.getKey('seed')).resolves.toEqual(key('seed'));
+});
+
+test('JwksCache requires a url or a seed file', () => {
+  expect(() => new JwksCache({})).toThrow('JwksCache requires a url or a seedFile');
+});
@@ -0,0 +1,47 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import type { HexString } from '@polkadot/util/types';
+
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { u8aToHex } from '@polkadot/util';
+import { expect, test } from 'vitest';
+
+import { getProofRequestMessage, verifyProofRequestSignature } from '../src/proofRequest';
+
+const keypair = new Ed25519Keypair();
+const publicKey = u8aToHex(keypair.getPublicKey().toRawBytes()) as HexString;
+const timestamp = 1735689600000;
+
+const sign = async (key: HexString, at: number) =>
+  (await keypair.signPersonalMessage(new TextEncoder().encode(getProofRequestMessage(key, at)))).signature;
+
+// Test cases for getProofRequestMessage function
+test('getProofRequestMessage binds the key and timestamp', () => {
+  expect(getProofRequestMessage('0xABCDEF', 1735689600000)).toBe('kzero:get-proof:0xabcdef:1735689600000');
+});
+
+// Test cases for verifyProofRequestSignature function
+test('verifyProofRequestSignature accepts a signature by the ephemeral key', async () => {
+  const signature = await sign(publicKey, timestamp);
+
+  await expect(verifyProofRequestSignature(publicKey, timestamp, signature)).resolves.toBe(true);
+});
+
+test('verifyProofRequestSignature rejects a signature over another timestamp', async () => {
+  const signature = await sign(publicKey, timestamp);
+
+  await expect(verifyProofRequestSignature(publicKey, timestamp + 1, signature)).resolves.toBe(false);
+});
+
+test('verifyProofRequestSignature rejects a signature by another key', async () => {
+  const otherKey = u8aToHex(new Ed25519Keypair().getPublicKey().toRawBytes()) as HexString;
+  const signature = await sign(otherKey, timestamp);
+
+  await expect(verifyProofRequestSignature(otherKey, timestamp, signature)).resolves.toBe(false);
+});
+
+test('verifyProofRequestSignature rejects malformed input', async () => {
+  await expect(verifyProofRequestSignature(publicKey, timestamp, 'not-a-signature')).resolves.toBe(false);
+  await expect(verifyProofRequestSignature('0x1234', timestamp, await sign(publicKey, timestamp))).resolves.toBe(false);
+});
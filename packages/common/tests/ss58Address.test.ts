@@ -0,0 +1,37 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { u8aToHex } from '@polkadot/util';
+import { decodeAddress } from '@polkadot/util-crypto';
+import { expect, test } from 'vitest';
+
+import { computeZkLoginAccountId, computeZkLoginSs58Address } from '../src/ss58Address';
+import { computeZkLoginAddress } from '../src/zkLoginAddress';
+
+const GOOGLE = 'https://accounts.google.com';
+const SEED = '13322897930163218532266430409510394316985274769125667290600321564259466511711';
+
+test('computeZkLoginAccountId is the Sui zkLogin address bytes', () => {
+  const accountId = computeZkLoginAccountId(SEED, GOOGLE);
+
+  expect(accountId).toHaveLength(32);
+  expect(u8aToHex(accountId)).toBe(computeZkLoginAddress(SEED, GOOGLE));
+});
+
+test('computeZkLoginSs58Address encodes with the generic Substrate prefix by default', () => {
+  expect(computeZkLoginSs58Address(SEED, GOOGLE)).toBe('5HfXCBtCTHR87AJak7EJemLqjPRynLJSSG8Dcbcuu814iQYS');
+});
+
+test('computeZkLoginSs58Address encodes the same account for every network prefix', () => {
+  const polkadot = computeZkLoginSs58Address(SEED, GOOGLE, 0);
+  const kusama = computeZkLoginSs58Address(SEED, GOOGLE, 2);
+
+  expect(polkadot).toBe('16bpLX9GK4gbYhK6hkHJnvAzb1RdUdraWkrhmtcGTD2atoWo');
+  expect(kusama).toBe('JB8rWE55eS3rp82Wp3MYihqsyiDb17ctdxy1FtsNvDZTBfa');
+  expect(decodeAddress(polkadot)).toEqual(decodeAddress(kusama));
+  expect(u8aToHex(decodeAddress(kusama))).toBe(computeZkLoginAddress(SEED, GOOGLE));
+});
+
+test('computeZkLoginSs58Address rejects an invalid network prefix', () => {
+  expect(() => computeZkLoginSs58Address(SEED, GOOGLE, 16384)).toThrow();
+});
@@ -0,0 +1,40 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { expect, test } from 'vitest';
+
+import { signWebhookPayload, verifyWebhookSignature } from '../src/webhook';
+
+const secret = 'whsec_test';
+const body = JSON.stringify({ event: 'proof.generated' });
+
+// Test cases for signWebhookPayload function
+test('signWebhookPayload signs the timestamp and body with HMAC-SHA256', () => {
+  expect(signWebhookPayload(secret, 'body', 1735689600000)).toBe(
+    't=1735689600000,v1=e366e9c8811808da2098e4d39bdb1d0eb6e3b85508e91c361183303145fc2569',
+  );
+});
+
+// Test cases for verifyWebhookSignature function
+test('verifyWebhookSignature accepts a fresh signature', () => {
+  expect(verifyWebhookSignature(secret, body, signWebhookPayload(secret, body))).toBe(true);
+});
+
+test('verifyWebhookSignature rejects a modified body or another secret', () => {
+  const signature = signWebhookPayload(secret, body);
+
+  expect(verifyWebhookSignature(secret, `${body} `, signature)).toBe(false);
+  expect(verifyWebhookSignature('whsec_other', body, signature)).toBe(false);
+});
+
+test('verifyWebhookSignature rejects a stale timestamp', () => {
+  const signature = signWebhookPayload(secret, body, Date.now() - 10 * 60 * 1000);
+
+  expect(verifyWebhookSignature(secret, body, signature)).toBe(false);
+  expect(verifyWebhookSignature(secret, body, signature, 15 * 60 * 1000)).toBe(true);
+});
+
+test('verifyWebhookSignature rejects malformed headers', () => {
+  expect(verifyWebhookSignature(secret, body, '')).toBe(false);
+  expect(verifyWebhookSignature(secret, body, `t=${Date.now()},v1=zz`)).toBe(false);
+});
@@ -0,0 +1,56 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { computeZkLoginAddressFromSeed, jwtToAddress } from '@mysten/sui/zklogin';
+import { expect, test } from 'vitest';
+
+import { computeZkLoginAddress, computeZkLoginAddressFromJwt } from '../src/zkLoginAddress';
+
+const GOOGLE = 'https://accounts.google.com';
+const SEED = '13322897930163218532266430409510394316985274769125667290600321564259466511711';
+
+// Google id_token of the generateZKInput test, with its signature stripped
+const jwt =
+  'eyJhbGciOiJSUzI1NiIsImtpZCI6ImM3ZTA0NDY1NjQ5ZmZhNjA2NTU3NjUwYzdlNjVmMGE4N2FlMDBmZTgiLCJ0eXAiOiJKV1QifQ.eyJpc3MiOiJodHRwczovL2FjY291bnRzLmdvb2dsZS5jb20iLCJhenAiOiI1NjA2MjkzNjU1MTctbXQ5ajlhcmZsY2dpMzVpOGhwb3B0cjY2cWdvMWxtZm0uYXBwcy5nb29nbGV1c2VyY29udGVudC5jb20iLCJhdWQiOiI1NjA2MjkzNjU1MTctbXQ5ajlhcmZsY2dpMzVpOGhwb3B0cjY2cWdvMWxtZm0uYXBwcy5nb29nbGV1c2VyY29udGVudC5jb20iLCJzdWIiOiIxMTExNDA0NjE1MzAyNDYxNjQ1MjYiLCJub25jZSI6InRWRURLbE1rSmtLaC1zYjMweU01ZDdIeXNRZyIsIm5iZiI6MTc0MzU5NDEzNywiaWF0IjoxNzQzNTk0NDM3LCJleHAiOjE3NDM1OTgwMzcsImp0aSI6IjAxNmQxNDk1YjJmM2MxMWVkZjU4NmIzMWIxODEzZjMxMjQ1NDk4YjEifQ.';
+const salt = 'AAECAwQFBgcICQoLDA0ODw==';
+
+// Test cases for computeZkLoginAddress function
+test('computeZkLoginAddress matches known Sui zkLogin addresses', () => {
+  expect(computeZkLoginAddress(SEED, GOOGLE)).toBe(
+    '0xf7badc2b245c7f74d7509a4aa357ecf80a29e7713fb4c44b0e7541ec43885ee1',
+  );
+  expect(computeZkLoginAddress(SEED, 'https://oauth.sui.io')).toBe(
+    '0x44e05b31bd2098ff9e2fdc51025541839c9261cfd8157b7929326da3c39577ab',
+  );
+  expect(computeZkLoginAddress(42n, GOOGLE)).toBe('0x93a40cc99eac4dccf9bb61d8434cae01416db47b1ad31abd2ebdf6bdddbef992');
+});
+
+test('computeZkLoginAddress normalizes the Google issuer', () => {
+  expect(computeZkLoginAddress(SEED, 'accounts.google.com')).toBe(computeZkLoginAddress(SEED, GOOGLE));
+});
+
+test('computeZkLoginAddress agrees with @mysten/sui for legacy and padded seeds', () => {
+  for (const seed of [SEED, '1234', '42']) {
+    expect(computeZkLoginAddress(seed, GOOGLE)).toBe(computeZkLoginAddressFromSeed(BigInt(seed), GOOGLE));
+    expect(computeZkLoginAddress(seed, GOOGLE, false)).toBe(computeZkLoginAddressFromSeed(BigInt(seed), GOOGLE, false));
+  }
+});
+
+// Test cases for computeZkLoginAddressFromJwt function
+test('computeZkLoginAddressFromJwt derives the address from the JWT and salt', () => {
+  expect(computeZkLoginAddressFromJwt(jwt, salt)).toBe(
+    '0x8944de80d4b7b503420dda4e81cb7de71a023f2b8f5d7aa397fe923ea812a53a',
+  );
+  // @mysten/sui takes the salt as the number the circuit sees, its ASCII bytes
+  expect(computeZkLoginAddressFromJwt(jwt, salt)).toBe(
+    jwtToAddress(jwt, BigInt(`0x${Buffer.from(salt).toString('hex')}`)),
+  );
+});
+
+test('computeZkLoginAddressFromJwt rejects a JWT without sub', () => {
+  const payload = Buffer.from(JSON.stringify({ iss: GOOGLE, aud: 'client' })).toString('base64url');
+
+  expect(() => computeZkLoginAddressFromJwt(`eyJhbGciOiJSUzI1NiJ9.${payload}.`, salt)).toThrow(
+    'JWT must have iss, sub and a single aud claim',
+  );
+});
@@ -0,0 +1,42 @@
+// Copyright 2024-2025 kzero authors & contributors
+// SPDX-License-Identifier: GNU General Public License v3.0
+
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { parseZkLoginSignature } from '@mysten/sui/zklogin';
+import { expect, test } from 'vitest';
+
+import { getZkLoginInputs, serializeZkLoginSignature } from '../src/zkLoginSignature';
+
+const payload = Buffer.from(JSON.stringify({ iss: 'https://accounts.google.com', sub: '1' })).toString('base64url');
+const jwt = `eyJhbGciOiJSUzI1NiJ9.${payload}.sig`;
+const proof = {
+  pi_a: ['1', '2', '1'],
+  pi_b: [
+    ['3', '4'],
+    ['5', '6'],
+    ['1', '0'],
+  ],
+  pi_c: ['7', '8', '1'],
+};
+
+// Test cases for getZkLoginInputs function
+test('getZkLoginInputs maps the proof and JWT to zkLogin signature inputs', () => {
+  expect(getZkLoginInputs({ jwt, proof, addressSeed: '42' })).toEqual({
+    proofPoints: { a: proof.pi_a, b: proof.pi_b, c: proof.pi_c },
+    issBase64Details: { value: 'yJpc3MiOiJodHRwczovL2FjY291bnRzLmdvb2dsZS5jb20iLC', indexMod4: 1 },
+    headerBase64: 'eyJhbGciOiJSUzI1NiJ9',
+    addressSeed: '42',
+  });
+});
+
+// Test cases for serializeZkLoginSignature function
+test('serializeZkLoginSignature produces a parseable zkLogin signature', async () => {
+  const inputs = getZkLoginInputs({ jwt, proof, addressSeed: '42' });
+  const { signature: userSignature } = await new Ed25519Keypair().signPersonalMessage(new Uint8Array([1, 2, 3]));
+
+  const signature = serializeZkLoginSignature({ inputs, maxEpoch: 514, userSignature });
+  const parsed = parseZkLoginSignature(Buffer.from(signature, 'base64').subarray(1));
+
+  expect(parsed.inputs).toEqual(inputs);
+  expect(parsed.maxEpoch).toBe('514');
+});
@@ -0,0 +1,93 @@
+-- CreateEnum
+CREATE TYPE "Provider" AS ENUM ('google', 'twitter', 'github');
+
+-- CreateEnum
+CREATE TYPE "ProofStatus" AS ENUM ('waiting', 'generating', 'generated', 'failed');
+
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL,
+    "sub" TEXT NOT NULL,
+    "email" TEXT,
+    "name" TEXT NOT NULL,
+    "picture" TEXT,
+    "provider" "Provider" NOT NULL,
+    "token_type" TEXT NOT NULL,
+    "access_token" TEXT NOT NULL,
+    "refresh_token" TEXT,
+    "id_token" TEXT,
+    "expires_in" INTEGER NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "nonces" (
+    "id" TEXT NOT NULL,
+    "ephemeral_public_key" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "max_epoch" BIGINT NOT NULL,
+    "randomness" TEXT NOT NULL,
+    "auth_state" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "nonces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "proofs" (
+    "id" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "jwt" TEXT NOT NULL,
+    "inputs" JSONB,
+    "fields" JSONB,
+    "proof" JSONB,
+    "public" JSONB,
+    "status" "ProofStatus" NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "proofs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_sub_key" ON "users"("sub");
+
+-- CreateIndex
+CREATE INDEX "users_sub_idx" ON "users"("sub");
+
+-- CreateIndex
+CREATE INDEX "users_provider_sub_idx" ON "users"("provider", "sub");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "nonces_ephemeral_public_key_key" ON "nonces"("ephemeral_public_key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "nonces_nonce_key" ON "nonces"("nonce");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "nonces_randomness_key" ON "nonces"("randomness");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "nonces_auth_state_key" ON "nonces"("auth_state");
+
+-- CreateIndex
+CREATE INDEX "nonces_nonce_idx" ON "nonces"("nonce");
+
+-- CreateIndex
+CREATE INDEX "nonces_ephemeral_public_key_idx" ON "nonces"("ephemeral_public_key");
+
+-- CreateIndex
+CREATE INDEX "nonces_auth_state_idx" ON "nonces"("auth_state");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proofs_nonce_key" ON "proofs"("nonce");
+
+-- CreateIndex
+CREATE INDEX "proofs_nonce_idx" ON "proofs"("nonce");
+
+-- CreateIndex
+CREATE INDEX "proofs_status_idx" ON "proofs"("status");
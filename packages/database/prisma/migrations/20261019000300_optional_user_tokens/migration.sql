@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ALTER COLUMN "token_type" DROP NOT NULL,
+ALTER COLUMN "access_token" DROP NOT NULL;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "salt" TEXT,
+ADD COLUMN "salt_version" INTEGER;
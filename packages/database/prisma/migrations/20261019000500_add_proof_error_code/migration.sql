@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "proofs" ADD COLUMN "error_code" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "nonces" ADD COLUMN "consumed_at" TIMESTAMP(3);
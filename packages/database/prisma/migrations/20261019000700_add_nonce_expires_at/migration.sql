@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "nonces" ADD COLUMN "expires_at" TIMESTAMP(3);
+
+-- Backfill: existing nonces expire NONCE_TTL_SECONDS (default 600) after they were created,
+-- abandoned logins among them are purged by the next cleanup run
+UPDATE "nonces" SET "expires_at" = "created_at" + INTERVAL '600 seconds';
+
+-- AlterTable
+ALTER TABLE "nonces" ALTER COLUMN "expires_at" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "nonces_expires_at_idx" ON "nonces"("expires_at");
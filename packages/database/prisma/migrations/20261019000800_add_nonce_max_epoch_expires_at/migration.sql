@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "nonces" ADD COLUMN "max_epoch_expires_at" TIMESTAMP(3);
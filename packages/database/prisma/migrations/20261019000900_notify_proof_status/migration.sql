@@ -0,0 +1,21 @@
+-- Notify the proof_status channel on every proof insert and status change, whichever
+-- service writes the row. auth-server LISTENs on it to push proof updates to SSE clients
+-- and to create webhook deliveries. The channel name is PROOF_STATUS_CHANNEL in
+-- apps/auth-server/src/proof/proof-events.service.ts.
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION notify_proof_status() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status THEN
+    PERFORM pg_notify('proof_status', json_build_object('nonce', NEW.nonce, 'status', NEW.status)::text);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- CreateTrigger
+DROP TRIGGER IF EXISTS proofs_notify_status ON "proofs";
+
+CREATE TRIGGER proofs_notify_status
+AFTER INSERT OR UPDATE OF status ON "proofs"
+FOR EACH ROW EXECUTE FUNCTION notify_proof_status();
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "proofs" ADD COLUMN "lease_owner" TEXT,
+ADD COLUMN "lease_expires_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "proofs_status_created_at_idx" ON "proofs"("status", "created_at");
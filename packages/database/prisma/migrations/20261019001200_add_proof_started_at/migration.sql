@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "proofs" ADD COLUMN "started_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "proofs_status_lease_expires_at_idx" ON "proofs"("status", "lease_expires_at");
@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "ProofStatus" ADD VALUE 'dead';
+
+-- AlterTable
+ALTER TABLE "proofs" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "last_error" TEXT,
+ADD COLUMN "available_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
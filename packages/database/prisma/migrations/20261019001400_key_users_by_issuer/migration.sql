@@ -0,0 +1,42 @@
+-- Users are identified by issuer, audience and subject instead of subject alone.
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "iss" TEXT,
+ADD COLUMN "aud" TEXT;
+
+-- Backfill: existing users all logged in with Google, the only provider before this change.
+-- The audience is the GOOGLE_CLIENT_ID their stored id_token was issued for. Users without
+-- a stored id_token take it from the kzero.google_client_id setting, e.g.
+--   ALTER DATABASE <database> SET kzero.google_client_id = '<GOOGLE_CLIENT_ID>';
+UPDATE "users"
+SET "iss" = 'https://accounts.google.com',
+    "aud" = COALESCE(
+      (
+        SELECT CASE jsonb_typeof(claims -> 'aud') WHEN 'array' THEN claims -> 'aud' ->> 0 ELSE claims ->> 'aud' END
+        FROM (
+          SELECT convert_from(
+            decode(rpad(translate(part, '-_', '+/'), (length(part) + 3) / 4 * 4, '='), 'base64'),
+            'UTF8'
+          )::jsonb AS claims
+          FROM (SELECT split_part("users"."id_token", '.', 2) AS part) AS payload
+        ) AS token
+      ),
+      NULLIF(current_setting('kzero.google_client_id', true), '')
+    );
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM "users" WHERE "aud" IS NULL) THEN
+    RAISE EXCEPTION 'users without id_token have no audience, set kzero.google_client_id to GOOGLE_CLIENT_ID and deploy again';
+  END IF;
+END $$;
+
+-- AlterTable
+ALTER TABLE "users" ALTER COLUMN "iss" SET NOT NULL,
+ALTER COLUMN "aud" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "users_sub_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_iss_aud_sub_key" ON "users"("iss", "aud", "sub");
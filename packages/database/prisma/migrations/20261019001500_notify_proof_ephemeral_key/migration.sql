@@ -0,0 +1,17 @@
+-- Proof status notifications also carry the ephemeral key of the proof's nonce. A pending
+-- nonce is replaced when its login is initiated again, so SSE clients watch the ephemeral
+-- key, which stays the same.
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION notify_proof_status() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status THEN
+    PERFORM pg_notify('proof_status', json_build_object(
+      'nonce', NEW.nonce,
+      'ephemeralPublicKey', (SELECT "ephemeral_public_key" FROM "nonces" WHERE "nonce" = NEW.nonce),
+      'status', NEW.status
+    )::text);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -8,4 +8,4 @@ export { prisma } from './client.js';
 export { PrismaClient, Prisma } from '../generated/client/index.js';
 
 // Re-export Prisma model types for convenience
-export type { User, Nonce, Proof } from '../generated/client/index.js';
+export type { User, Nonce, Proof, Provider, Webhook, WebhookDelivery } from '../generated/client/index.js';